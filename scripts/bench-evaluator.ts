@@ -0,0 +1,62 @@
+// Checks the fast evaluator against `evaluateHand` on random 5/6/7-card
+// deals and times both. Usage: npm run bench:evaluator -- [deals] [seed]
+import { Card } from '../src/types';
+import { createDeck, evaluateHand } from '../src/utils/poker';
+import { evaluateHandFast } from '../src/utils/fastEvaluator';
+
+const deals = parseInt(process.argv[2] ?? '', 10) || 1_000_000;
+const seed = parseInt(process.argv[3] ?? '', 10) || 20240601;
+
+// Small seeded PRNG so every pass sees the same deals.
+const mulberry32 = (a: number) => () => {
+  a = (a + 0x6d2b79f5) | 0;
+  let t = Math.imul(a ^ (a >>> 15), 1 | a);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const DECK = createDeck();
+
+// Calls `visit` with each deal: two hole cards plus a 3-5 card board.
+const forEachDeal = (visit: (hole: Card[], board: Card[]) => void) => {
+  const rng = mulberry32(seed);
+  const deck = [...DECK];
+  for (let d = 0; d < deals; d++) {
+    const size = 5 + (d % 3);
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(rng() * (deck.length - i));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    visit(deck.slice(0, 2), deck.slice(2, size));
+  }
+};
+
+const time = (label: string, visit: (hole: Card[], board: Card[]) => void) => {
+  const start = performance.now();
+  forEachDeal(visit);
+  const ms = performance.now() - start;
+  console.log(`${label.padEnd(14)} ${ms.toFixed(0).padStart(7)} ms  ${Math.round(deals / (ms / 1000)).toLocaleString()} hands/s`);
+  return ms;
+};
+
+console.log(`Comparing evaluators over ${deals.toLocaleString()} deals (seed ${seed})...`);
+let mismatches = 0;
+forEachDeal((hole, board) => {
+  const expected = evaluateHand(hole, board);
+  const actual = evaluateHandFast(hole, board);
+  if (expected.score !== actual.score || expected.name !== actual.name) {
+    if (mismatches++ < 5) {
+      const cards = [...hole, ...board].map(c => c.rank + c.suit).join(' ');
+      console.log(`  mismatch: ${cards} -> ${expected.score} "${expected.name}" vs ${actual.score} "${actual.name}"`);
+    }
+  }
+});
+console.log(mismatches === 0 ? 'All scores and names match.' : `${mismatches} mismatches.`);
+
+let sink = 0; // Keeps the calls from being optimised away
+const baseline = time('deal only', () => { sink++; });
+const reference = time('evaluateHand', (hole, board) => { sink += evaluateHand(hole, board).score; }) - baseline;
+const fast = time('fast', (hole, board) => { sink += evaluateHandFast(hole, board).score; }) - baseline;
+console.log(`Speed-up (excluding dealing): ${(reference / fast).toFixed(1)}x (checksum ${sink})`);
+
+process.exit(mismatches === 0 ? 0 : 1);
@@ -2,8 +2,24 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import path from 'path';
+import fs from 'fs';
 import { fileURLToPath } from 'url';
 import cors from 'cors';
+import { createHash, randomBytes, randomInt, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import Database from 'better-sqlite3';
+import { createTable, startHand, applyAction, nextPhase, getBettingOptions, voteRuns, isRunoutVoteOpen, voidHand } from './src/engine/engine.ts';
+import { projectTable } from './src/engine/projection.ts';
+import { createTableConfig, getDefaultBuyIn, formatBlinds } from './src/engine/config.ts';
+import { BOT_STYLES, decideBotAction, decideBotRuns, getBotDelayMs, getBotName } from './src/engine/bots.ts';
+import { startHistory, recordEvents, summarizeHistory, projectHistory } from './src/engine/history.ts';
+import { createStats, applyHandToStats } from './src/engine/stats.ts';
+import { formatHandHistories } from './src/engine/pokerstars.ts';
+import { createServerSeed, shuffleWithSeeds } from './src/utils/fairShuffle.ts';
+import { readPayload } from './src/utils/payload.ts';
+import {
+    createTournamentConfig, createTournamentState, getBlindLevel, applyBlindLevel, recordEliminations,
+    getMttPayouts, planTableBalance, getNextBigBlindSeat,
+} from './src/engine/tournament.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -22,353 +38,1440 @@ const io = new Server(server, {
     }
 });
 
-// --- Constants ---
-const BIG_BLIND = 20;
-const SMALL_BLIND = 10;
-const Suit = { HEARTS: '♥', DIAMONDS: '♦', CLUBS: '♣', SPADES: '♠' };
-const Rank = { TWO: '2', THREE: '3', FOUR: '4', FIVE: '5', SIX: '6', SEVEN: '7', EIGHT: '8', NINE: '9', TEN: '10', JACK: 'J', QUEEN: 'Q', KING: 'K', ACE: 'A' };
-const RANK_VALUES = {
-    '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
-    '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
-};
+// --- Tables ---
+// All rules live in the shared engine (src/engine), the server only owns
+// the table registry, seating, sockets and the timing between streets.
+// Every table is a Socket.IO room keyed by its id; sockets browsing tables
+// sit in the lobby room.
+const LOBBY_ROOM = 'lobby';
+const STREET_DELAY_MS = 500;
+const tables = new Map();
 
-// --- Game State ---
-let players = new Array(9).fill(null);
-let gameState = {
-    pot: 0,
-    communityCards: [],
-    deck: [],
-    phase: 'IDLE',
-    currentPlayerIndex: -1,
-    dealerIndex: -1,
-    minBet: BIG_BLIND,
-    currentBet: 0,
-    lastRaiserIndex: null,
-    winners: [],
-    logs: ['Waiting for players...'],
-};
+// --- Sessions ---
+// A session token is handed out on first connect and kept by the browser.
+// It maps to a public player id, so seats survive refreshes and Wi-Fi blips.
+const RECONNECT_GRACE_MS = 60 * 1000;
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const sessions = new Map(); // token -> { token, playerId, accountId, clientSeed, tableId, socketId, graceTimer, idleTimer }
 
-// --- Poker Logic (Simplified Helpers) ---
-function createDeck() {
-    const deck = [];
-    Object.values(Suit).forEach(suit => {
-        Object.values(Rank).forEach(rank => {
-            deck.push({ suit, rank, value: RANK_VALUES[rank] });
-        });
+function getSession(token) {
+    if (typeof token === 'string' && sessions.has(token)) return sessions.get(token);
+    const session = { token: randomUUID(), playerId: randomUUID(), accountId: null, clientSeed: '', tableId: null, socketId: null, graceTimer: null, idleTimer: null };
+    sessions.set(session.token, session);
+    return session;
+}
+
+// Forgets a session once nobody has used it for a while. A seat keeps it
+// alive, since the stack is tied to the player id until they stand up.
+function expireIdleSession(session) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+        if (session.socketId) return;
+        const seated = Array.from(tables.values()).some(room => findSeat(room, session.playerId) !== -1);
+        if (seated) expireIdleSession(session);
+        else sessions.delete(session.token);
+    }, SESSION_IDLE_MS);
+}
+
+// --- Hand Histories ---
+// Every finished hand is appended to a JSON-lines file and indexed by the
+// players who were dealt in, so each player can export their own session.
+const DATA_DIR = path.join(__dirname, 'data');
+const HISTORY_FILE = path.join(DATA_DIR, 'hand-histories.jsonl');
+const handHistories = new Map(); // handId -> HandHistory
+const handsByPlayer = new Map(); // playerId -> handId[]
+
+function indexHistory(history) {
+    handHistories.set(history.handId, history);
+    history.seats.forEach(s => {
+        if (!handsByPlayer.has(s.playerId)) handsByPlayer.set(s.playerId, []);
+        handsByPlayer.get(s.playerId).push(history.handId);
+    });
+}
+
+function loadHistories() {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    if (!fs.existsSync(HISTORY_FILE)) return;
+    fs.readFileSync(HISTORY_FILE, 'utf8').split('\n').forEach(line => {
+        if (!line.trim()) return;
+        try {
+            indexHistory(JSON.parse(line));
+        } catch (err) {
+            console.error('Skipping unreadable hand history line:', err.message);
+        }
+    });
+}
+
+function saveHistory(history) {
+    indexHistory(history);
+    fs.appendFile(HISTORY_FILE, JSON.stringify(history) + '\n', err => {
+        if (err) console.error('Failed to save hand history:', err.message);
+    });
+}
+
+// --- Player Statistics ---
+// One small JSON file, rewritten after every hand.
+const STATS_FILE = path.join(DATA_DIR, 'player-stats.json');
+const playerStats = new Map(); // playerId -> PlayerStats
+
+function loadStats() {
+    if (!fs.existsSync(STATS_FILE)) return;
+    try {
+        Object.values(JSON.parse(fs.readFileSync(STATS_FILE, 'utf8'))).forEach(s => playerStats.set(s.playerId, s));
+    } catch (err) {
+        console.error('Ignoring unreadable player stats:', err.message);
+    }
+}
+
+function recordStats(history) {
+    applyHandToStats(history, (playerId, name) => playerStats.get(playerId) ?? createStats(playerId, name))
+        .forEach(s => playerStats.set(s.playerId, s));
+    fs.writeFile(STATS_FILE, JSON.stringify(Object.fromEntries(playerStats)), err => {
+        if (err) console.error('Failed to save player stats:', err.message);
     });
-    return deck;
 }
 
-function shuffleDeck(deck) {
-    const newDeck = [...deck];
-    for (let i = newDeck.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
+// Stats of everyone seated, for the HUD.
+function seatedStats(room) {
+    return Object.fromEntries(
+        room.table.players.filter(p => p && playerStats.has(p.id)).map(p => [p.id, playerStats.get(p.id)])
+    );
+}
+
+// --- Accounts ---
+// Accounts and bankrolls live in SQLite. Every balance change is written
+// together with its transaction row, so the ledger always adds up. A
+// logged-in player's id is their account id, which keeps their stats and
+// hand histories across sessions.
+const STARTING_BANKROLL = 10000;
+const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,16}$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+fs.mkdirSync(DATA_DIR, { recursive: true });
+const db = new Database(path.join(DATA_DIR, 'poker.db'));
+db.pragma('journal_mode = WAL');
+db.exec(`
+    CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        balance INTEGER NOT NULL CHECK (balance >= 0),
+        created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id TEXT NOT NULL REFERENCES accounts(id),
+        kind TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        balance INTEGER NOT NULL,
+        note TEXT NOT NULL DEFAULT '',
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS transactions_by_account ON transactions (account_id, id);
+`);
+
+const hashPassword = (password, salt = randomBytes(16).toString('hex')) =>
+    `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+
+function checkPassword(password, stored) {
+    const [salt, hash] = stored.split(':');
+    const candidate = scryptSync(password, salt, 64);
+    return timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+}
+
+const getAccount = (accountId) => db.prepare('SELECT * FROM accounts WHERE id = ?').get(accountId);
+const toAccountSummary = (account) => ({ username: account.username, balance: account.balance });
+
+// Moves `amount` (signed) into or out of a bankroll; returns the new balance,
+// or null when that would take it below zero.
+const adjustBalance = db.transaction((accountId, kind, amount, note = '') => {
+    const account = getAccount(accountId);
+    if (!account || account.balance + amount < 0) return null;
+    const balance = account.balance + amount;
+    db.prepare('UPDATE accounts SET balance = ? WHERE id = ?').run(balance, accountId);
+    db.prepare('INSERT INTO transactions (account_id, kind, amount, balance, note, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(accountId, kind, amount, balance, note, Date.now());
+    return balance;
+});
+
+// Returns the new account, or an error message.
+function createAccount(username, password) {
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+        return { error: 'Usernames are 3-16 letters, digits or underscores.' };
     }
-    return newDeck;
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return { error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+    }
+    if (db.prepare('SELECT 1 FROM accounts WHERE username = ?').get(username)) {
+        return { error: 'That username is taken.' };
+    }
+    const id = randomUUID();
+    db.transaction(() => {
+        db.prepare('INSERT INTO accounts (id, username, password_hash, balance, created_at) VALUES (?, ?, ?, 0, ?)')
+            .run(id, username, hashPassword(password), Date.now());
+        adjustBalance(id, 'signup', STARTING_BANKROLL, 'Welcome bankroll');
+    })();
+    return { account: getAccount(id) };
+}
+
+function findAccountByLogin(username, password) {
+    if (typeof username !== 'string' || typeof password !== 'string') return null;
+    const account = db.prepare('SELECT * FROM accounts WHERE username = ?').get(username);
+    return account && checkPassword(password, account.password_hash) ? account : null;
 }
 
-function evaluateHand(holeCards, communityCards) {
-    const cards = [...holeCards, ...communityCards].sort((a, b) => b.value - a.value);
-    
-    const isFlush = (cs) => {
-        const suits = {};
-        cs.forEach(c => suits[c.suit] = (suits[c.suit] || 0) + 1);
-        const flushSuit = Object.keys(suits).find(s => suits[s] >= 5);
-        return flushSuit ? cs.filter(c => c.suit === flushSuit).slice(0, 5) : null;
+function getProfile(accountId) {
+    const account = getAccount(accountId);
+    if (!account) return null;
+    const transactions = db.prepare(
+        'SELECT id, kind, amount, balance, note, created_at AS createdAt FROM transactions WHERE account_id = ? ORDER BY id DESC LIMIT 100'
+    ).all(accountId);
+    return { ...toAccountSummary(account), createdAt: account.created_at, transactions };
+}
+
+// Pushes the current balance to every connection logged into the account.
+function sendAccount(accountId) {
+    const account = getAccount(accountId);
+    if (!account) return;
+    sessions.forEach(s => {
+        if (s.accountId !== accountId || !s.socketId) return;
+        io.sockets.sockets.get(s.socketId)?.emit('account', toAccountSummary(account));
+    });
+}
+
+function createTableRoom(name, config, hostId = null, id = randomUUID().slice(0, 8), table = createTable(config, ['Waiting for players...'])) {
+    const room = {
+        id,
+        name,
+        table,
+        hostId, // May seat bots; tables without one go to the first player to sit
+        streetTimer: null,
+        clockTimer: null,
+        botTimer: null,
+        voteTimer: null,
+        history: null, // Hand being recorded
+        handsPlayed: 0,
+        potTotal: 0,
+        dealing: false, // Shuffle under way
+        nextSeed: null, // Committed to before the next hand
+        nextSeedHash: null,
+        fairness: null, // Proof of the hand in play; the seed stays secret
+        revealed: null, // Proof of the last finished hand
+        tournament: null, // Tournament state; null at cash tables
+        mttId: null, // Set at the tables of a multi-table tournament
+        startingStacks: null, // Of a tournament hand waiting to be settled
+        levelTimer: null,
+        nextHandTimer: null,
+        closed: false,
     };
-    
-    const isStraight = (cs) => {
-        const unique = Array.from(new Set(cs.map(c => c.value))).sort((a, b) => b - a);
-        for (let i = 0; i <= unique.length - 5; i++) {
-            if (unique[i] - unique[i + 4] === 4) return unique[i];
-        }
-        if (unique.includes(14) && unique.includes(5) && unique.includes(2)) return 5; 
-        return null;
+    commitNextSeed(room);
+    tables.set(id, room);
+    return room;
+}
+
+// Only tournaments close tables, once their players have moved on.
+function closeTableRoom(room) {
+    [room.streetTimer, room.clockTimer, room.botTimer, room.voteTimer, room.nextHandTimer].forEach(clearTimeout);
+    room.closed = true;
+    tables.delete(room.id);
+    deleteSnapshot.run(room.id);
+}
+
+// --- Provably Fair Shuffle ---
+// Each hand's server seed is drawn, and its hash published, before the hand
+// it deals; players add their own seeds, and the seed is revealed when the
+// hand is over. See src/utils/fairShuffle.ts for the exact shuffle.
+const CLIENT_SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function commitNextSeed(room) {
+    room.nextSeed = createServerSeed();
+    room.nextSeedHash = createHash('sha256').update(room.nextSeed).digest('hex');
+}
+
+// Seeds of the humans about to be dealt in, in seat order.
+function collectClientSeeds(room) {
+    const seeds = new Map(Array.from(sessions.values()).map(s => [s.playerId, s.clientSeed]));
+    return room.table.players
+        .filter(p => p && !p.botStyle && (!p.isSittingOut || room.tournament) && p.chips > 0 && seeds.get(p.id))
+        .map(p => seeds.get(p.id))
+        .join(',');
+}
+
+function getFairnessInfo(room) {
+    const current = room.fairness && {
+        serverSeedHash: room.fairness.serverSeedHash,
+        clientSeed: room.fairness.clientSeed,
+        nonce: room.fairness.nonce,
+        variant: room.fairness.variant,
     };
+    return { nextServerSeedHash: room.nextSeedHash, current, revealed: room.revealed };
+}
 
-    const counts = {};
-    cards.forEach(c => counts[c.value] = (counts[c.value] || 0) + 1);
-    const quads = Object.keys(counts).find(r => counts[r] === 4);
-    const trips = Object.keys(counts).filter(r => counts[r] === 3).sort((a,b) => b-a);
-    const pairs = Object.keys(counts).filter(r => counts[r] === 2).sort((a,b) => b-a);
-    const flush = isFlush(cards);
-    const straight = isStraight(cards);
-
-    if (flush && isStraight(flush)) return { score: 9000000 + isStraight(flush), name: 'Straight Flush' };
-    if (quads) return { score: 8000000 + parseInt(quads), name: 'Four of a Kind' };
-    if (trips.length > 0 && (trips.length >= 2 || pairs.length > 0)) return { score: 7000000 + parseInt(trips[0]), name: 'Full House' };
-    if (flush) return { score: 6000000 + flush[0].value, name: 'Flush' };
-    if (straight) return { score: 5000000 + straight, name: 'Straight' };
-    if (trips.length > 0) return { score: 4000000 + parseInt(trips[0]), name: 'Three of a Kind' };
-    if (pairs.length >= 2) return { score: 3000000 + parseInt(pairs[0]), name: 'Two Pair' };
-    if (pairs.length > 0) return { score: 2000000 + parseInt(pairs[0]), name: 'One Pair' };
-    return { score: 1000000 + cards[0].value, name: 'High Card' };
-}
-
-function addLog(msg) {
-    gameState.logs.push(msg);
-    if (gameState.logs.length > 50) gameState.logs.shift();
-}
-
-function broadcastState() {
-    const publicPlayers = players.map(p => {
-        if (!p) return null;
-        // In a real app, hide cards here unless showdown or it's the specific user
-        return p; 
-    });
-    io.emit('gameStateUpdate', { players: publicPlayers, gameState });
-}
-
-function nextPhase() {
-    let roundPot = 0;
-    players.forEach(p => {
-        if (p) {
-            roundPot += p.bet;
-            p.bet = 0;
-            p.hasActed = false;
-        }
+// Shuffles with the committed seed, then deals. The seed is used up even if
+// the hand cannot start, so no seed ever deals twice.
+async function dealHand(room) {
+    if (room.dealing || (room.tournament && room.tournament.status !== 'RUNNING')) return;
+    room.dealing = true;
+    const proof = {
+        serverSeed: room.nextSeed,
+        serverSeedHash: room.nextSeedHash,
+        clientSeed: collectClientSeeds(room),
+        nonce: room.handsPlayed + 1,
+        variant: room.table.config.variant,
+    };
+    commitNextSeed(room);
+    let deck;
+    try {
+        deck = await shuffleWithSeeds(proof.serverSeed, proof.clientSeed, proof.nonce, proof.variant);
+    } finally {
+        room.dealing = false;
+    }
+    const { phase } = room.table.gameState;
+    if (phase !== 'IDLE' && phase !== 'SHOWDOWN') return;
+    if (room.tournament) {
+        // Players knocked out last hand leave, and the current level's blinds apply.
+        room.table.players.forEach((p, seatIndex) => {
+            if (p && p.chips <= 0) vacateSeat(room, seatIndex);
+        });
+        room.table = applyBlindLevel(room.table, getBlindLevel(room.tournament));
+    }
+    const result = startHand(room.table, deck, { dealSittingOut: !!room.tournament });
+    if (result.events.some(e => e.type === 'handStarted')) room.fairness = proof;
+    commit(room, result);
+}
+
+// Deals in the background. A failure is logged rather than left as an
+// unhandled rejection, which would end the process; tournaments try again.
+function startDealing(room) {
+    dealHand(room).catch(err => {
+        console.error(`Failed to deal at table ${room.id}:`, err.message);
+        if (room.tournament?.status === 'RUNNING') scheduleNextHand(room);
     });
-    gameState.pot += roundPot;
+}
 
-    const activePlayers = players.filter(p => p && p.status !== 'FOLDED' && p.status !== 'BUSTED');
-    if (activePlayers.length === 1) {
-        handleShowdown(true);
-        return;
-    }
+// --- Sit & Go Tournaments ---
+// Registering is taking a seat (and paying the entry). The tournament starts
+// by itself once every seat is taken, deals hand after hand with the blinds
+// going up on a timer, and pays out when one player holds every chip. Bots
+// seated by the host enter on the house.
+const NEXT_HAND_DELAY_MS = 3000;
+
+const ordinal = (n) => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+    return `${n}${suffix}`;
+};
+
+function createTournamentRoom(name, seatCount, input, hostId) {
+    const tournamentConfig = createTournamentConfig(input, seatCount);
+    const { startingStack } = tournamentConfig;
+    const config = createTableConfig({ ...tournamentConfig.levels[0], seatCount, minBuyIn: startingStack, maxBuyIn: startingStack });
+    const room = createTableRoom(name, config, hostId);
+    room.tournament = createTournamentState(tournamentConfig);
+    return room;
+}
+
+function enterTournament(room) {
+    const t = room.tournament;
+    t.entrants++;
+    t.prizePool += t.config.buyIn;
+    if (room.table.players.every(p => p)) startTournament(room);
+}
+
+function startTournament(room) {
+    const t = room.tournament;
+    t.status = 'RUNNING';
+    t.levelEndsAt = Date.now() + t.config.levelDurationSec * 1000;
+    addLog(room, `The tournament is under way: ${t.entrants} players, $${t.prizePool} prize pool.`);
+    scheduleLevelUp(room);
+    scheduleNextHand(room);
+    broadcastLobby();
+}
+
+function scheduleLevelUp(room) {
+    clearTimeout(room.levelTimer);
+    const t = room.tournament;
+    if (t.status !== 'RUNNING') return;
+    room.levelTimer = setTimeout(() => {
+        // Knockouts replace room.tournament, so look it up again.
+        const current = room.tournament;
+        current.levelIndex++;
+        current.levelEndsAt = Date.now() + current.config.levelDurationSec * 1000;
+        addLog(room, `Blinds go up to ${formatBlinds(getBlindLevel(current))} from the next hand.`);
+        broadcastState(room);
+        scheduleLevelUp(room);
+    }, Math.max(0, t.levelEndsAt - Date.now()));
+}
 
-    if (gameState.phase === 'PREFLOP') {
-        gameState.communityCards.push(gameState.deck.pop(), gameState.deck.pop(), gameState.deck.pop());
-        gameState.phase = 'FLOP';
-        addLog("Flop dealt.");
-    } else if (gameState.phase === 'FLOP') {
-        gameState.communityCards.push(gameState.deck.pop());
-        gameState.phase = 'TURN';
-        addLog("Turn dealt.");
-    } else if (gameState.phase === 'TURN') {
-        gameState.communityCards.push(gameState.deck.pop());
-        gameState.phase = 'RIVER';
-        addLog("River dealt.");
-    } else if (gameState.phase === 'RIVER') {
-        gameState.phase = 'SHOWDOWN';
-        addLog("Showdown!");
-        computeWinners();
+function scheduleNextHand(room) {
+    clearTimeout(room.nextHandTimer);
+    room.nextHandTimer = setTimeout(() => startDealing(room), NEXT_HAND_DELAY_MS);
+}
+
+const logFinish = (room, f) =>
+    addLog(room, `${f.name} finishes ${ordinal(f.position)}${f.prize > 0 ? ` and wins $${f.prize}` : ''}.`);
+
+// Called when a tournament hand ends: record who went out, then either
+// deal on or pay out.
+function settleTournamentHand(room, history) {
+    if (room.mttId) {
+        settleMttHand(room, history);
         return;
-    } else if (gameState.phase === 'SHOWDOWN') {
+    }
+    const stacks = new Map((history?.seats ?? []).map(s => [s.playerId, s.stack]));
+    const before = room.tournament.finishes.length;
+    room.tournament = recordEliminations(room.tournament, room.table.players, stacks);
+    room.tournament.finishes.slice(before).forEach(f => logFinish(room, f));
+    if (room.tournament.status !== 'FINISHED') {
+        scheduleNextHand(room);
         return;
     }
+    clearTimeout(room.levelTimer);
+    clearTimeout(room.nextHandTimer);
+    // Prizes are paid in the same transaction that journals the result.
+    const paid = db.transaction(() => {
+        journalRoom(room);
+        return room.tournament.finishes.filter(f => f.prize > 0 && adjustBalance(f.playerId, 'tournamentPrize', f.prize, room.name) !== null);
+    })();
+    paid.forEach(f => sendAccount(f.playerId));
+    broadcastLobby();
+}
 
-    gameState.currentBet = 0;
-    gameState.lastRaiserIndex = null;
-    gameState.minBet = 0;
-    
-    let nextIdx = (gameState.dealerIndex + 1) % 9;
-    while (!players[nextIdx] || players[nextIdx].status !== 'PLAYING') {
-        nextIdx = (nextIdx + 1) % 9;
-    }
-    gameState.currentPlayerIndex = nextIdx;
-    broadcastState();
-}
-
-function computeWinners() {
-    const candidates = players.filter(p => p && p.status !== 'FOLDED' && p.status !== 'BUSTED');
-    const evals = candidates.map(p => {
-        const ev = evaluateHand(p.cards, gameState.communityCards);
-        return { playerId: p.id, score: ev.score, name: ev.name, index: players.indexOf(p) };
-    });
-    
-    if (evals.length === 0) return;
-
-    evals.sort((a,b) => b.score - a.score);
-    const bestScore = evals[0].score;
-    const winners = evals.filter(e => e.score === bestScore);
-    const splitAmt = Math.floor(gameState.pot / winners.length);
-
-    winners.forEach(w => {
-        players[w.index].chips += splitAmt;
-        gameState.winners.push({ playerId: w.playerId, handName: w.name, amount: splitAmt });
-    });
-    
-    gameState.pot = 0;
-    gameState.currentPlayerIndex = -1;
-    
-    const chipSummary = players.filter(p=>p).map(p=>`${p.name}: $${p.chips}`).join(" | ");
-    addLog(`End of Hand. Stats: ${chipSummary}`);
-    
-    broadcastState();
-}
-
-function handleShowdown(foldedWin) {
-    if (foldedWin) {
-        const winner = players.find(p => p && p.status !== 'FOLDED' && p.status !== 'BUSTED');
-        if (winner) {
-            winner.chips += gameState.pot;
-            gameState.winners = [{ playerId: winner.id, handName: 'Opponents Folded', amount: gameState.pot }];
-            addLog(`${winner.name} wins $${gameState.pot} (opponents folded).`);
-            gameState.pot = 0;
-            gameState.phase = 'SHOWDOWN';
-            gameState.currentPlayerIndex = -1;
-            broadcastState();
-        }
-    }
+// --- Multi-Table Tournaments ---
+// Players register from the lobby and are dealt across as many tables as it
+// takes when the tournament starts. Every table deals on its own; after each
+// hand the busted players leave and the tables are rebalanced: the shortest
+// table is broken once the others have room for its players, and players
+// move from the biggest tables to the shortest so no two differ by more
+// than one. One off the money, play goes hand-for-hand: no table deals
+// until every table has finished its hand.
+const tournaments = new Map(); // id -> multi-table tournament (mtt)
+const MTT_MAX_ENTRANTS = 90;
+
+function createMtt(name, input, hostId) {
+    const seatCount = Math.max(6, createTableConfig({ seatCount: input?.seatCount }).seatCount);
+    const maxEntrants = Math.min(MTT_MAX_ENTRANTS, Math.max(2, Math.floor(Number(input?.maxEntrants)) || 18));
+    const mtt = {
+        id: randomUUID().slice(0, 8),
+        name,
+        hostId, // May seat bots and start early
+        seatCount,
+        maxEntrants,
+        state: createTournamentState({ ...createTournamentConfig(input, seatCount), payouts: getMttPayouts(0) }),
+        registrations: [], // { playerId, name, botStyle }
+        roomIds: [],
+        levelTimer: null,
+    };
+    tournaments.set(mtt.id, mtt);
+    journalMtt(mtt);
+    return mtt;
 }
 
-io.on('connection', (socket) => {
-    socket.emit('gameStateUpdate', { players, gameState });
+const getMttRooms = (mtt) => mtt.roomIds.map(id => tables.get(id)).filter(Boolean);
+const countSeated = (room) => room.table.players.filter(p => p).length;
 
-    socket.on('sit', ({ seatIndex, buyIn, name }) => {
-        if (players[seatIndex]) return;
-        players[seatIndex] = {
-            id: socket.id, 
-            name: name || `Player ${seatIndex + 1}`,
-            chips: buyIn,
+function isBetweenHands(room) {
+    const { phase } = room.table.gameState;
+    return !room.dealing && (phase === 'IDLE' || phase === 'SHOWDOWN');
+}
+
+// Every table of the tournament shares one state object.
+function setMttState(mtt, state) {
+    mtt.state = state;
+    getMttRooms(mtt).forEach(room => { room.tournament = state; });
+}
+
+function getMttSummary(mtt) {
+    return {
+        id: mtt.id,
+        name: mtt.name,
+        hostId: mtt.hostId,
+        seatCount: mtt.seatCount,
+        maxEntrants: mtt.maxEntrants,
+        state: mtt.state,
+        remaining: mtt.state.entrants - mtt.state.finishes.length,
+        tableCount: mtt.roomIds.length,
+        registeredIds: mtt.registrations.map(r => r.playerId),
+    };
+}
+
+function getMttLobby(mtt) {
+    const rooms = getMttRooms(mtt);
+    const position = (playerId) => mtt.state.finishes.find(f => f.playerId === playerId)?.position ?? 0;
+    const players = mtt.registrations.map(({ playerId, name }) => {
+        const room = rooms.find(r => findSeat(r, playerId) !== -1);
+        return {
+            playerId,
+            name,
+            chips: room ? room.table.players[findSeat(room, playerId)].chips : 0,
+            tableId: room?.id ?? null,
+            tableName: room?.name ?? null,
+        };
+    });
+    // Chip leaders first, then everyone who is out in finishing order.
+    players.sort((a, b) => b.chips - a.chips || position(a.playerId) - position(b.playerId));
+    return {
+        ...getMttSummary(mtt),
+        players,
+        tables: rooms.map(r => ({ id: r.id, name: r.name, playerCount: countSeated(r) })),
+    };
+}
+
+function registerForMtt(mtt, entrant) {
+    const t = mtt.state;
+    mtt.registrations.push(entrant);
+    t.entrants++;
+    t.prizePool += t.config.buyIn;
+    t.config = { ...t.config, payouts: getMttPayouts(t.entrants) };
+    journalMtt(mtt);
+}
+
+function unregisterFromMtt(mtt, playerId) {
+    const t = mtt.state;
+    mtt.registrations = mtt.registrations.filter(r => r.playerId !== playerId);
+    t.entrants--;
+    t.prizePool -= t.config.buyIn;
+    t.config = { ...t.config, payouts: getMttPayouts(t.entrants) };
+}
+
+// Sends a player's open tabs to the table they now play at.
+function followPlayer(playerId, room, fromRoomId = null) {
+    sessions.forEach(s => {
+        if (s.playerId !== playerId || (fromRoomId && s.tableId !== fromRoomId)) return;
+        const socket = s.socketId && io.sockets.sockets.get(s.socketId);
+        if (socket) {
+            if (s.tableId) socket.leave(s.tableId);
+            socket.leave(LOBBY_ROOM);
+            socket.join(room.id);
+            socket.emit('tableJoined', { tableId: room.id, name: room.name });
+        }
+        s.tableId = room.id;
+    });
+}
+
+function startMtt(mtt) {
+    const t = mtt.state;
+    const { startingStack } = t.config;
+    const config = createTableConfig({ ...t.config.levels[0], seatCount: mtt.seatCount, minBuyIn: startingStack, maxBuyIn: startingStack });
+    const entrants = [...mtt.registrations];
+    for (let i = entrants.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [entrants[i], entrants[j]] = [entrants[j], entrants[i]];
+    }
+    const tableCount = Math.ceil(entrants.length / mtt.seatCount);
+    const rooms = Array.from({ length: tableCount }, (_, i) => {
+        const room = createTableRoom(`${mtt.name} · Table ${i + 1}`, config);
+        room.mttId = mtt.id;
+        mtt.roomIds.push(room.id);
+        return room;
+    });
+    entrants.forEach(({ playerId, name, botStyle }, i) => {
+        const room = rooms[i % tableCount];
+        room.table.players[Math.floor(i / tableCount)] = {
+            id: playerId,
+            name,
+            chips: startingStack,
             bet: 0,
+            totalBet: 0,
             status: 'SITTING_OUT',
             cards: [],
             isDealer: false,
             isSmallBlind: false,
             isBigBlind: false,
-            hasActed: false
+            hasActed: false,
+            isDisconnected: false,
+            isSittingOut: false,
+            timeBank: config.timeBankSec,
+            botStyle,
         };
-        addLog(`${name} sat at Seat ${seatIndex + 1}.`);
-        broadcastState();
+        if (!botStyle) followPlayer(playerId, room);
     });
+    t.status = 'RUNNING';
+    t.levelEndsAt = Date.now() + t.config.levelDurationSec * 1000;
+    setMttState(mtt, t);
+    journalMtt(mtt);
+    scheduleMttLevelUp(mtt);
+    rooms.forEach(room => {
+        addLog(room, `${mtt.name} is under way: ${t.entrants} players on ${tableCount} table${tableCount > 1 ? 's' : ''}, $${t.prizePool} prize pool.`);
+        broadcastState(room);
+        scheduleNextHand(room);
+    });
+    broadcastLobby();
+}
 
-    socket.on('standUp', ({ seatIndex }) => {
-        // Allow anyone to kick a seat if it's debug, or check socket id
-        if (players[seatIndex] && players[seatIndex].id === socket.id) {
-            addLog(`${players[seatIndex].name} stood up.`);
-            players[seatIndex] = null;
-            broadcastState();
+function scheduleMttLevelUp(mtt) {
+    clearTimeout(mtt.levelTimer);
+    if (mtt.state.status !== 'RUNNING') return;
+    mtt.levelTimer = setTimeout(() => {
+        const t = mtt.state;
+        t.levelIndex++;
+        t.levelEndsAt = Date.now() + t.config.levelDurationSec * 1000;
+        journalMtt(mtt);
+        getMttRooms(mtt).forEach(room => {
+            addLog(room, `Blinds go up to ${formatBlinds(getBlindLevel(t))} from the next hand.`);
+            broadcastState(room);
+        });
+        scheduleMttLevelUp(mtt);
+    }, Math.max(0, mtt.state.levelEndsAt - Date.now()));
+}
+
+// Tables between hands deal again; hand-for-hand, only once they all are.
+function scheduleMttHands(mtt) {
+    const rooms = getMttRooms(mtt);
+    if (mtt.state.handForHand && !rooms.every(isBetweenHands)) return;
+    rooms.filter(isBetweenHands).forEach(scheduleNextHand);
+}
+
+function movePlayer(from, to) {
+    const seatIndex = getNextBigBlindSeat(from.table.players, from.table.gameState.dealerIndex);
+    const p = from.table.players[seatIndex];
+    from.table.players[seatIndex] = null;
+    to.table.players[to.table.players.findIndex(s => !s)] = {
+        ...p,
+        status: 'SITTING_OUT',
+        bet: 0,
+        totalBet: 0,
+        cards: [],
+        isDealer: false,
+        isSmallBlind: false,
+        isBigBlind: false,
+        hasActed: false,
+    };
+    addLog(from, `${p.name} moves to ${to.name}.`);
+    addLog(to, `${p.name} joins from ${from.name}.`);
+    if (!p.botStyle) followPlayer(p.id, to, from.id);
+}
+
+function balanceMtt(mtt) {
+    const rooms = getMttRooms(mtt);
+    const { breaking, moves } = planTableBalance(
+        rooms.map(r => ({ id: r.id, playerCount: countSeated(r), canMoveFrom: isBetweenHands(r) })),
+        mtt.seatCount
+    );
+    if (moves.length === 0 && !breaking) return;
+    const broken = breaking && tables.get(breaking);
+    // One transaction for the whole pass: a crash part way must not restore
+    // a moved player at both tables, or at neither.
+    db.transaction(() => {
+        moves.forEach(({ from, to }) => movePlayer(tables.get(from), tables.get(to)));
+        if (broken) {
+            // Anyone still watching the broken table goes along with its players.
+            const heir = tables.get(moves[0]?.to) ?? rooms.find(r => r.id !== breaking);
+            sessions.forEach(s => {
+                if (s.tableId === breaking && heir) followPlayer(s.playerId, heir, breaking);
+            });
+            closeTableRoom(broken);
+            mtt.roomIds = mtt.roomIds.filter(id => id !== breaking);
         }
+        getMttRooms(mtt).forEach(journalRoom);
+        journalMtt(mtt);
+    })();
+    if (!broken) return;
+    getMttRooms(mtt).forEach(room => addLog(room, `${broken.name} is broken; ${mtt.roomIds.length} table${mtt.roomIds.length > 1 ? 's' : ''} left.`));
+}
+
+// Called when a hand ends at one of the tournament's tables. Hand-for-hand,
+// knockouts wait until every table has finished, so players busting on the
+// same hand finish in the order of their starting stacks. The stacks are
+// journaled with the table, so a restart while waiting settles them later.
+function settleMttHand(room, history) {
+    const mtt = tournaments.get(room.mttId);
+    if (!room.startingStacks) room.startingStacks = new Map((history?.seats ?? []).map(s => [s.playerId, s.stack]));
+    const rooms = getMttRooms(mtt);
+    if (mtt.state.handForHand && !rooms.every(isBetweenHands)) {
+        addLog(room, 'Hand-for-hand: waiting for the other tables to finish.');
+        return;
+    }
+    const settled = rooms.filter(r => r.startingStacks);
+    const stacks = new Map(settled.flatMap(r => [...r.startingStacks]));
+    const othersRemaining = rooms.filter(r => !r.startingStacks).reduce((sum, r) => sum + countSeated(r), 0);
+    const before = mtt.state.finishes.length;
+    setMttState(mtt, recordEliminations(mtt.state, settled.flatMap(r => r.table.players), stacks, othersRemaining));
+    const finishes = mtt.state.finishes.slice(before);
+    settled.forEach(r => {
+        r.startingStacks = null;
+        finishes.forEach(f => {
+            const seatIndex = findSeat(r, f.playerId);
+            if (seatIndex === -1) return;
+            logFinish(r, f);
+            if (r.table.players[seatIndex].chips <= 0) r.table.players[seatIndex] = null;
+        });
     });
 
-    socket.on('startGame', () => {
-        const activeIdxs = [];
-        players.forEach((p, i) => {
-            if (p && p.chips > 0) {
-                p.status = 'PLAYING';
-                p.cards = [];
-                p.bet = 0;
-                p.hasActed = false;
-                p.isDealer = false;
-                p.isSmallBlind = false;
-                p.isBigBlind = false;
-                activeIdxs.push(i);
-            }
+    if (mtt.state.status === 'FINISHED') {
+        clearTimeout(mtt.levelTimer);
+        rooms.forEach(r => clearTimeout(r.nextHandTimer));
+        const paid = db.transaction(() => {
+            journalMtt(mtt);
+            rooms.forEach(journalRoom);
+            return mtt.state.finishes.filter(f => f.prize > 0 && adjustBalance(f.playerId, 'tournamentPrize', f.prize, mtt.name) !== null);
+        })();
+        paid.forEach(f => sendAccount(f.playerId));
+        rooms.filter(r => r !== room).forEach(broadcastState);
+        broadcastLobby();
+        return;
+    }
+
+    balanceMtt(mtt);
+    const remaining = mtt.state.entrants - mtt.state.finishes.length;
+    const handForHand = mtt.roomIds.length > 1 && remaining === mtt.state.config.payouts.length + 1;
+    if (handForHand !== mtt.state.handForHand) {
+        mtt.state.handForHand = handForHand;
+        getMttRooms(mtt).forEach(r => {
+            if (handForHand) clearTimeout(r.nextHandTimer);
+            addLog(r, handForHand ? 'On the bubble: play is now hand-for-hand.' : 'The bubble has burst: tables deal freely again.');
         });
+    }
+    journalMtt(mtt);
+    scheduleMttHands(mtt);
+    getMttRooms(mtt).filter(r => r !== room).forEach(broadcastState);
+    broadcastLobby();
+}
+
+function getTableSummary(room) {
+    const { config, players } = room.table;
+    return {
+        id: room.id,
+        name: room.name,
+        config,
+        playerCount: players.filter(p => p).length,
+        handsPlayed: room.handsPlayed,
+        averagePot: room.handsPlayed > 0 ? Math.round(room.potTotal / room.handsPlayed) : 0,
+        tournament: room.tournament,
+        tournamentId: room.mttId,
+    };
+}
+
+// --- Crash Recovery ---
+// Every table is journaled to SQLite each time its state changes. On boot the
+// tables come back as they were; a hand that was in progress is voided and
+// every bet returned, as its timers and run-out votes did not survive.
+db.exec(`
+    CREATE TABLE IF NOT EXISTS table_snapshots (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        host_id TEXT,
+        hands_played INTEGER NOT NULL,
+        pot_total INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+`);
+const snapshotColumns = db.prepare('PRAGMA table_info(table_snapshots)').all().map(c => c.name);
+if (!snapshotColumns.includes('tournament')) db.exec('ALTER TABLE table_snapshots ADD COLUMN tournament TEXT');
+if (!snapshotColumns.includes('tournament_id')) db.exec('ALTER TABLE table_snapshots ADD COLUMN tournament_id TEXT');
+if (!snapshotColumns.includes('starting_stacks')) db.exec('ALTER TABLE table_snapshots ADD COLUMN starting_stacks TEXT');
+const saveSnapshot = db.prepare(`
+    INSERT INTO table_snapshots (id, name, host_id, hands_played, pot_total, state, tournament, tournament_id, starting_stacks, updated_at)
+    VALUES (@id, @name, @hostId, @handsPlayed, @potTotal, @state, @tournament, @tournamentId, @startingStacks, @updatedAt)
+    ON CONFLICT (id) DO UPDATE SET host_id = @hostId, hands_played = @handsPlayed, pot_total = @potTotal,
+        state = @state, tournament = @tournament, tournament_id = @tournamentId, starting_stacks = @startingStacks, updated_at = @updatedAt
+`);
+const deleteSnapshot = db.prepare('DELETE FROM table_snapshots WHERE id = ?');
+
+// Multi-table tournaments are journaled on their own; their tables point at them.
+db.exec(`
+    CREATE TABLE IF NOT EXISTS tournaments (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        host_id TEXT,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+`);
+const saveTournament = db.prepare(`
+    INSERT INTO tournaments (id, name, host_id, state, updated_at) VALUES (@id, @name, @hostId, @state, @updatedAt)
+    ON CONFLICT (id) DO UPDATE SET host_id = @hostId, state = @state, updated_at = @updatedAt
+`);
+
+function journalMtt(mtt) {
+    const { seatCount, maxEntrants, state, registrations, roomIds } = mtt;
+    saveTournament.run({
+        id: mtt.id,
+        name: mtt.name,
+        hostId: mtt.hostId,
+        state: JSON.stringify({ seatCount, maxEntrants, state, registrations, roomIds }),
+        updatedAt: Date.now(),
+    });
+}
 
-        if (activeIdxs.length < 2) {
-            addLog("Need at least 2 active players to start.");
-            broadcastState();
+function journalRoom(room) {
+    if (room.closed) return;
+    saveSnapshot.run({
+        id: room.id,
+        name: room.name,
+        hostId: room.hostId,
+        handsPlayed: room.handsPlayed,
+        potTotal: room.potTotal,
+        state: JSON.stringify(room.table),
+        tournament: room.tournament && !room.mttId ? JSON.stringify(room.tournament) : null,
+        tournamentId: room.mttId,
+        // Knockouts still waiting to be settled are only ranked by these.
+        startingStacks: room.startingStacks ? JSON.stringify([...room.startingStacks]) : null,
+        updatedAt: Date.now(),
+    });
+}
+
+function restoreMtts() {
+    db.prepare('SELECT * FROM tournaments ORDER BY rowid').all().forEach(row => {
+        try {
+            const saved = JSON.parse(row.state);
+            tournaments.set(row.id, { id: row.id, name: row.name, hostId: row.host_id, ...saved, levelTimer: null });
+        } catch (err) {
+            console.error(`Skipping unreadable tournament ${row.id}:`, err.message);
+        }
+    });
+}
+
+function restoreTables() {
+    db.prepare('SELECT * FROM table_snapshots ORDER BY rowid').all().forEach(row => {
+        let table;
+        try {
+            table = JSON.parse(row.state);
+        } catch (err) {
+            console.error(`Skipping unreadable snapshot of table ${row.id}:`, err.message);
             return;
         }
+        // Snapshots from before a table setting existed pick up its default.
+        table.config = createTableConfig(table.config);
+        const { state, events } = voidHand(table, 'the server restarted');
+        // Nobody is connected yet; people are back in when they rejoin.
+        state.players.forEach(p => {
+            if (!p || p.botStyle) return;
+            p.isDisconnected = true;
+            p.isSittingOut = true;
+        });
+        const room = createTableRoom(row.name, state.config, row.host_id, row.id, state);
+        room.handsPlayed = row.hands_played;
+        room.potTotal = row.pot_total;
+        const mtt = row.tournament_id && tournaments.get(row.tournament_id);
+        if (mtt) {
+            room.mttId = mtt.id;
+            room.tournament = mtt.state;
+            room.startingStacks = row.starting_stacks ? new Map(JSON.parse(row.starting_stacks)) : null;
+        } else {
+            room.tournament = row.tournament ? JSON.parse(row.tournament) : null;
+        }
+        if (room.tournament?.status === 'RUNNING' && !mtt) {
+            scheduleLevelUp(room);
+            scheduleNextHand(room);
+        }
+        journalRoom(room);
+        const voided = events.find(e => e.type === 'handVoided');
+        console.log(`Restored table ${room.name}${voided ? ` (hand voided, ${voided.refunds.length} bets returned)` : ''}`);
+    });
+}
+
+function sendLobby(target) {
+    target.emit('tableList', Array.from(tables.values()).map(getTableSummary));
+    target.emit('tournamentList', Array.from(tournaments.values()).map(getMttSummary));
+}
+
+function broadcastLobby() {
+    sendLobby(io.to(LOBBY_ROOM));
+}
+
+function addLog(room, msg) {
+    room.table.gameState.logs.push(msg);
+    if (room.table.gameState.logs.length > 50) room.table.gameState.logs.shift();
+}
+
+// Each socket gets its own view: own hole cards only, no deck. serverTime
+// lets clients correct for clock skew when drawing the action clock.
+function sendState(room, socket) {
+    socket.emit('gameStateUpdate', {
+        ...projectTable(room.table, socket.data.session.playerId),
+        serverTime: Date.now(),
+        hostId: room.hostId,
+        stats: seatedStats(room),
+        fairness: getFairnessInfo(room),
+        tournament: room.tournament,
+        tournamentId: room.mttId,
+    });
+}
+
+function findSeat(room, playerId) {
+    return room.table.players.findIndex(p => p && p.id === playerId);
+}
+
+// Seats whose owner stayed away past the grace period never hold up a hand.
+function actForAwayPlayer(room) {
+    const seatIndex = room.table.gameState.currentPlayerIndex;
+    const p = room.table.players[seatIndex];
+    if (!p || !p.isSittingOut) return;
+    setTimeout(() => {
+        if (room.table.gameState.currentPlayerIndex !== seatIndex || !room.table.players[seatIndex]?.isSittingOut) return;
+        const { canCheck } = getBettingOptions(room.table, seatIndex);
+        commit(room, applyAction(room.table, seatIndex, { type: canCheck ? 'check' : 'fold' }));
+    }, 0);
+}
+
+// Bots act on their own after a short, human-looking pause.
+function actForBot(room) {
+    const seatIndex = room.table.gameState.currentPlayerIndex;
+    if (!room.table.players[seatIndex]?.botStyle) return;
+    clearTimeout(room.botTimer);
+    room.botTimer = setTimeout(() => {
+        if (room.table.gameState.currentPlayerIndex !== seatIndex || !room.table.players[seatIndex]?.botStyle) return;
+        commit(room, applyAction(room.table, seatIndex, decideBotAction(room.table, seatIndex)));
+    }, getBotDelayMs());
+}
+
+// Every change players get to see is journaled first.
+function broadcastState(room) {
+    journalRoom(room);
+    const members = io.sockets.adapter.rooms.get(room.id) || new Set();
+    members.forEach(socketId => {
+        const socket = io.sockets.sockets.get(socketId);
+        if (socket) sendState(room, socket);
+    });
+}
+
+// --- Action Clock ---
+// Every turn gets actionTimeoutSec; after that the player's time bank kicks in,
+// and when that is gone too the server checks or folds for them.
+const TURN_EVENTS = ['action', 'handStarted', 'phaseChanged', 'roundComplete', 'handEnded'];
+
+function stopActionClock(room) {
+    clearTimeout(room.clockTimer);
+    const clock = room.table.gameState.actionClock;
+    if (clock && clock.usingTimeBank) {
+        const p = room.table.players[clock.seatIndex];
+        const used = Math.ceil((Date.now() - clock.startedAt) / 1000);
+        if (p) p.timeBank = Math.max(0, p.timeBank - used);
+    }
+    room.table.gameState.actionClock = null;
+}
+
+function startActionClock(room) {
+    const seatIndex = room.table.gameState.currentPlayerIndex;
+    if (seatIndex === -1) return;
+    const now = Date.now();
+    const clock = { seatIndex, startedAt: now, deadline: now + room.table.config.actionTimeoutSec * 1000, usingTimeBank: false };
+    room.table.gameState.actionClock = clock;
+    room.clockTimer = setTimeout(() => onClockExpired(room, clock), clock.deadline - now);
+}
+
+function onClockExpired(room, clock) {
+    if (room.table.gameState.actionClock !== clock) return;
+    const p = room.table.players[clock.seatIndex];
+    if (!clock.usingTimeBank && p && p.timeBank > 0) {
+        const now = Date.now();
+        const banked = { ...clock, startedAt: now, deadline: now + p.timeBank * 1000, usingTimeBank: true };
+        room.table.gameState.actionClock = banked;
+        room.clockTimer = setTimeout(() => onClockExpired(room, banked), banked.deadline - now);
+        addLog(room, `${p.name} is using their time bank.`);
+        broadcastState(room);
+        return;
+    }
+    const { canCheck } = getBettingOptions(room.table, clock.seatIndex);
+    if (p) addLog(room, `${p.name} ran out of time.`);
+    commit(room, applyAction(room.table, clock.seatIndex, { type: canCheck ? 'check' : 'fold' }));
+}
+
+// --- Run It Twice ---
+// Players get RUNOUT_VOTE_MS to answer; silence counts as running it once.
+// Bots and players sitting out answer straight away.
+const RUNOUT_VOTE_MS = 15 * 1000;
+
+function voteForSeats(room, pick) {
+    const seats = room.table.gameState.runoutVote?.seats || [];
+    seats.forEach((seat, i) => {
+        const { gameState } = room.table;
+        if (!isRunoutVoteOpen(gameState) || gameState.runoutVote.votes[i] !== null) return;
+        const runs = pick(room.table.players[seat]);
+        if (runs) commit(room, voteRuns(room.table, seat, runs));
+    });
+}
 
-        gameState.deck = shuffleDeck(createDeck());
-        gameState.communityCards = [];
-        gameState.pot = 0;
-        gameState.winners = [];
-        gameState.logs = [];
+function startRunoutVote(room) {
+    clearTimeout(room.voteTimer);
+    room.voteTimer = setTimeout(() => voteForSeats(room, () => 1), RUNOUT_VOTE_MS);
+    setTimeout(() => {
+        voteForSeats(room, p => (p.botStyle ? decideBotRuns() : p.isSittingOut ? 1 : null));
+    }, getBotDelayMs());
+}
+
+// Apply an engine result and schedule the next street when betting closes.
+function commit(room, { state, events }) {
+    room.table = state;
+    if (events.some(e => e.type === 'handStarted')) room.history = startHistory(state, room.id, room.name);
+    if (room.history) recordEvents(room.history, state, events);
+    if (events.some(e => TURN_EVENTS.includes(e.type))) {
+        stopActionClock(room);
+        startActionClock(room);
+    }
+    if (events.some(e => e.type === 'roundComplete')) {
+        clearTimeout(room.streetTimer);
+        room.streetTimer = setTimeout(() => commit(room, nextPhase(room.table)), STREET_DELAY_MS);
+    }
+    if (events.some(e => e.type === 'runoutVoteOpened')) startRunoutVote(room);
+    const ended = events.find(e => e.type === 'handEnded');
+    if (ended) {
+        room.revealed = room.fairness;
+        room.fairness = null;
+        if (room.history) {
+            room.history.fairness = room.revealed;
+            saveHistory(room.history);
+            recordStats(room.history);
+        }
+        if (room.tournament?.status === 'RUNNING') settleTournamentHand(room, room.history);
+        room.history = null;
+        room.handsPlayed++;
+        room.potTotal += ended.winners.reduce((sum, w) => sum + w.amount, 0);
+        broadcastLobby();
+    }
+    broadcastState(room);
+    actForAwayPlayer(room);
+    actForBot(room);
+    return events;
+}
+
+// Seats still live in the current hand cannot be vacated.
+function canVacate(room, seatIndex) {
+    const p = room.table.players[seatIndex];
+    const { phase } = room.table.gameState;
+    // Nobody walks away from a running tournament with chips.
+    if (room.tournament?.status === 'RUNNING' && p.chips > 0) return false;
+    return phase === 'IDLE' || phase === 'SHOWDOWN' || (p.status !== 'PLAYING' && p.status !== 'ALL_IN');
+}
+
+function vacateSeat(room, seatIndex) {
+    const { id, name, chips, botStyle } = room.table.players[seatIndex];
+    addLog(room, `${name} stood up.`);
+    room.table.players[seatIndex] = null;
+    // Cash tables pay what is left of the stack back to the bankroll; a
+    // sit-and-go refunds the entry until it starts, and nothing after.
+    const { tournament } = room;
+    const registered = tournament?.status === 'REGISTERING';
+    if (registered) {
+        tournament.entrants--;
+        tournament.prizePool -= tournament.config.buyIn;
+    }
+    const [kind, amount] = !tournament ? ['cashOut', chips] : registered ? ['tournamentRefund', tournament.config.buyIn] : [null, 0];
+    // Credited in the same transaction that journals the empty seat.
+    const credited = db.transaction(() => {
+        journalRoom(room);
+        return !botStyle && kind !== null && adjustBalance(id, kind, amount, room.name) !== null;
+    })();
+    if (credited) sendAccount(id);
+    // Hosting passes to the next seated human, if any.
+    if (room.hostId === id) room.hostId = room.table.players.find(p => p && !p.botStyle)?.id ?? null;
+    broadcastLobby();
+}
+
+loadHistories();
+loadStats();
+restoreMtts();
+restoreTables();
+tournaments.forEach(mtt => {
+    if (mtt.state.status !== 'RUNNING') return;
+    scheduleMttLevelUp(mtt);
+    // A hand-for-hand hand may have ended with knockouts still unsettled;
+    // settling them deals on, as it would have without the restart.
+    const waiting = getMttRooms(mtt).find(r => r.startingStacks);
+    if (!waiting) {
+        scheduleMttHands(mtt);
+        return;
+    }
+    settleMttHand(waiting);
+    broadcastState(waiting);
+});
+if (tables.size === 0) createTableRoom('Main Table', createTableConfig());
+
+io.on('connection', (socket) => {
+    const session = getSession(socket.handshake.auth?.sessionToken);
+    let { playerId } = session; // Becomes the account id on login
+    socket.data.session = session;
+    const currentRoom = () => tables.get(session.tableId);
 
-        let nextDealer = -1;
-        if (gameState.dealerIndex === -1) {
-            nextDealer = activeIdxs[0];
+    // A newer connection for the same session takes over from the old one.
+    const previous = session.socketId && io.sockets.sockets.get(session.socketId);
+    session.socketId = socket.id;
+    if (previous) previous.disconnect(true);
+    clearTimeout(session.graceTimer);
+    clearTimeout(session.idleTimer);
+    socket.emit('session', { sessionToken: session.token, playerId });
+    if (session.accountId) sendAccount(session.accountId);
+
+    const joinRoom = (room) => {
+        if (session.tableId !== room.id) leaveRoom();
+        socket.leave(LOBBY_ROOM);
+        socket.join(room.id);
+        session.tableId = room.id;
+        socket.emit('tableJoined', { tableId: room.id, name: room.name });
+
+        const seatIndex = findSeat(room, playerId);
+        if (seatIndex !== -1) {
+            const p = room.table.players[seatIndex];
+            p.isDisconnected = false;
+            p.isSittingOut = false;
+            addLog(room, `${p.name} reconnected.`);
+            broadcastState(room);
         } else {
-            let currPtr = activeIdxs.indexOf(gameState.dealerIndex);
-            if (currPtr === -1) currPtr = 0;
-            nextDealer = activeIdxs[(currPtr + 1) % activeIdxs.length];
+            sendState(room, socket);
         }
-        gameState.dealerIndex = nextDealer;
-        players[nextDealer].isDealer = true;
-
-        let sbPtr = (activeIdxs.indexOf(nextDealer) + 1) % activeIdxs.length;
-        let bbPtr = (activeIdxs.indexOf(nextDealer) + 2) % activeIdxs.length;
-        if (activeIdxs.length === 2) {
-            sbPtr = activeIdxs.indexOf(nextDealer);
-            bbPtr = (sbPtr + 1) % 2;
+    };
+
+    function leaveRoom() {
+        const room = currentRoom();
+        if (!room) return;
+        const seatIndex = findSeat(room, playerId);
+        if (seatIndex !== -1 && canVacate(room, seatIndex)) {
+            vacateSeat(room, seatIndex);
+            broadcastState(room);
         }
+        socket.leave(room.id);
+        session.tableId = null;
+        socket.join(LOBBY_ROOM);
+    }
 
-        const sbIdx = activeIdxs[sbPtr];
-        const bbIdx = activeIdxs[bbPtr];
+    // Reclaim the seat (and hole cards) from before the reconnect.
+    if (currentRoom()) {
+        joinRoom(currentRoom());
+    } else {
+        socket.join(LOBBY_ROOM);
+    }
+    sendLobby(socket);
 
-        players[sbIdx].chips -= SMALL_BLIND;
-        players[sbIdx].bet = SMALL_BLIND;
-        players[sbIdx].isSmallBlind = true;
+    // Handlers that read a payload register through here. A `= {}` default
+    // only covers a missing payload; destructuring null would throw and take
+    // the whole server down.
+    const on = (event, handler) => socket.on(event, (payload, ...rest) => handler(readPayload(payload), ...rest));
 
-        players[bbIdx].chips -= BIG_BLIND;
-        players[bbIdx].bet = BIG_BLIND;
-        players[bbIdx].isBigBlind = true;
+    socket.on('listTables', () => {
+        sendLobby(socket);
+    });
 
-        activeIdxs.forEach(i => {
-            players[i].cards = [gameState.deck.pop(), gameState.deck.pop()];
-        });
+    on('createTable', ({ name, config }) => {
+        const tableName = typeof name === 'string' && name.trim() ? name.trim().slice(0, 24) : `Table ${tables.size + 1}`;
+        const room = createTableRoom(tableName, createTableConfig(config), playerId);
+        joinRoom(room);
+        broadcastLobby();
+    });
+
+    on('createTournament', ({ name, seatCount, tournament }) => {
+        const tableName = typeof name === 'string' && name.trim() ? name.trim().slice(0, 24) : `Sit & Go ${tables.size + 1}`;
+        const room = createTournamentRoom(tableName, createTableConfig({ seatCount }).seatCount, tournament, playerId);
+        joinRoom(room);
+        broadcastLobby();
+    });
+
+    on('joinTable', ({ tableId }) => {
+        const room = tables.get(tableId);
+        if (room) joinRoom(room);
+    });
+
+    socket.on('leaveTable', () => {
+        leaveRoom();
+        sendLobby(socket);
+    });
+
+    // --- Accounts ---
+    // Switching accounts is only allowed away from the felt, so a seat
+    // always belongs to the account that paid for it.
+    const isSeatedAnywhere = () => Array.from(tables.values()).some(room => findSeat(room, playerId) !== -1);
+
+    const signIn = (accountId) => {
+        session.accountId = accountId;
+        session.playerId = playerId = accountId ?? randomUUID();
+        if (currentRoom()) leaveRoom();
+        socket.emit('session', { sessionToken: session.token, playerId });
+        socket.emit('account', accountId ? toAccountSummary(getAccount(accountId)) : null);
+    };
 
-        let firstActPtr = (bbPtr + 1) % activeIdxs.length;
-        gameState.currentPlayerIndex = activeIdxs[firstActPtr];
-        
-        gameState.phase = 'PREFLOP';
-        gameState.minBet = BIG_BLIND;
-        gameState.currentBet = BIG_BLIND;
-        gameState.lastRaiserIndex = bbIdx;
-        
-        addLog(`New Hand. Blinds ${SMALL_BLIND}/${BIG_BLIND}.`);
-        broadcastState();
-    });
-
-    socket.on('action', ({ action, amount }) => {
-        const idx = gameState.currentPlayerIndex;
-        if (idx === -1 || !players[idx]) return;
-        
-        const p = players[idx];
-        const callAmount = gameState.currentBet - p.bet;
-
-        let log = "";
-        if (action === 'fold') {
-            p.status = 'FOLDED';
-            log = `${p.name} folds.`;
-        } else if (action === 'check') {
-            log = `${p.name} checks.`;
-        } else if (action === 'call') {
-            const amt = Math.min(callAmount, p.chips);
-            p.chips -= amt;
-            p.bet += amt;
-            if (p.chips === 0) p.status = 'ALL_IN';
-            log = `${p.name} calls.`;
-        } else if (action === 'raise') {
-            const totalBet = gameState.currentBet + amount; 
-            const needed = totalBet - p.bet;
-            if (needed >= p.chips) {
-                 p.bet += p.chips;
-                 p.chips = 0;
-                 p.status = 'ALL_IN';
-                 log = `${p.name} goes All-in!`;
-            } else {
-                 p.chips -= needed;
-                 p.bet += needed;
-                 log = `${p.name} raises to ${p.bet}.`;
-            }
-            gameState.currentBet = p.bet;
-            gameState.lastRaiserIndex = idx;
+    on('register', ({ username, password }, reply) => {
+        if (typeof reply !== 'function') return;
+        if (isSeatedAnywhere()) return reply({ error: 'Stand up before switching accounts.' });
+        const { account, error } = createAccount(username, password);
+        if (error) return reply({ error });
+        signIn(account.id);
+        reply({ account: toAccountSummary(account) });
+    });
+
+    on('login', ({ username, password }, reply) => {
+        if (typeof reply !== 'function') return;
+        if (isSeatedAnywhere()) return reply({ error: 'Stand up before switching accounts.' });
+        const account = findAccountByLogin(username, password);
+        if (!account) return reply({ error: 'Wrong username or password.' });
+        signIn(account.id);
+        reply({ account: toAccountSummary(account) });
+    });
+
+    socket.on('logout', () => {
+        if (!session.accountId || isSeatedAnywhere()) return;
+        signIn(null);
+    });
+
+    socket.on('getProfile', (_, reply) => {
+        if (typeof reply !== 'function') return;
+        reply(session.accountId ? getProfile(session.accountId) : null);
+    });
+
+    // --- Multi-Table Tournaments ---
+    // Replies carry an error message, or nothing on success.
+    const findOpenMtt = (tournamentId) => {
+        const mtt = tournaments.get(tournamentId);
+        return mtt?.state.status === 'REGISTERING' ? mtt : null;
+    };
+
+    on('createMtt', ({ name, tournament }) => {
+        const mttName = typeof name === 'string' && name.trim() ? name.trim().slice(0, 24) : `Tournament ${tournaments.size + 1}`;
+        createMtt(mttName, tournament, playerId);
+        broadcastLobby();
+    });
+
+    on('registerMtt', ({ tournamentId }, reply) => {
+        if (typeof reply !== 'function') return;
+        const mtt = findOpenMtt(tournamentId);
+        if (!mtt) return reply({ error: 'Registration for this tournament is closed.' });
+        const account = session.accountId && getAccount(session.accountId);
+        if (!account) return reply({ error: 'Log in to register.' });
+        if (mtt.registrations.some(r => r.playerId === playerId)) return reply({ error: 'You are already registered.' });
+        // The entry fee leaves the bankroll in the same transaction that journals the registration.
+        const entered = db.transaction(() => {
+            if (adjustBalance(account.id, 'tournamentEntry', -mtt.state.config.buyIn, mtt.name) === null) return false;
+            registerForMtt(mtt, { playerId, name: account.username, botStyle: null });
+            return true;
+        })();
+        if (!entered) return reply({ error: 'Not enough in your bankroll for this entry.' });
+        sendAccount(account.id);
+        if (mtt.state.entrants >= mtt.maxEntrants) startMtt(mtt);
+        broadcastLobby();
+        reply({});
+    });
+
+    on('unregisterMtt', ({ tournamentId }, reply) => {
+        if (typeof reply !== 'function') return;
+        const mtt = findOpenMtt(tournamentId);
+        if (!mtt || !mtt.registrations.some(r => r.playerId === playerId)) return reply({ error: 'You are not registered.' });
+        db.transaction(() => {
+            unregisterFromMtt(mtt, playerId);
+            adjustBalance(playerId, 'tournamentRefund', mtt.state.config.buyIn, mtt.name);
+            journalMtt(mtt);
+        })();
+        sendAccount(playerId);
+        broadcastLobby();
+        reply({});
+    });
+
+    // Bots enter on the house, like at a sit-and-go.
+    on('addMttBot', ({ tournamentId, style }) => {
+        const mtt = findOpenMtt(tournamentId);
+        if (!mtt || mtt.hostId !== playerId || !BOT_STYLES.some(b => b.style === style)) return;
+        registerForMtt(mtt, { playerId: `bot-${randomUUID()}`, name: getBotName(style, mtt.registrations.length), botStyle: style });
+        if (mtt.state.entrants >= mtt.maxEntrants) startMtt(mtt);
+        broadcastLobby();
+    });
+
+    on('startMtt', ({ tournamentId }) => {
+        const mtt = findOpenMtt(tournamentId);
+        if (!mtt || mtt.hostId !== playerId || mtt.registrations.length < 2) return;
+        startMtt(mtt);
+    });
+
+    on('getMttLobby', ({ tournamentId }, reply) => {
+        if (typeof reply !== 'function') return;
+        const mtt = tournaments.get(tournamentId);
+        reply(mtt ? getMttLobby(mtt) : null);
+    });
+
+    on('sit', ({ seatIndex, buyIn }) => {
+        const room = currentRoom();
+        if (!room) return;
+        const { table } = room;
+        if (!Number.isInteger(seatIndex) || seatIndex < 0 || seatIndex >= table.config.seatCount) return;
+        if (table.players[seatIndex]) return;
+        if (findSeat(room, playerId) !== -1) return;
+        const account = session.accountId && getAccount(session.accountId);
+        if (!account) {
+            socket.emit('actionRejected', { code: 'NOT_LOGGED_IN', message: 'Log in to take a seat.' });
+            return;
+        }
+        const { tournament } = room;
+        if (tournament && tournament.status !== 'REGISTERING') {
+            socket.emit('actionRejected', { code: 'REGISTRATION_CLOSED', message: 'This tournament has already started.' });
+            return;
+        }
+        // At a sit-and-go the buy-in range is exactly the starting stack.
+        const { minBuyIn, maxBuyIn } = table.config;
+        if (!Number.isInteger(buyIn) || buyIn < minBuyIn || buyIn > maxBuyIn) {
+            socket.emit('actionRejected', { code: 'INVALID_BUY_IN', message: `Buy-in must be between $${minBuyIn} and $${maxBuyIn}.` });
+            return;
         }
+        const name = account.username;
+        const player = {
+            id: playerId,
+            name,
+            chips: buyIn,
+            bet: 0,
+            totalBet: 0,
+            status: 'SITTING_OUT',
+            cards: [],
+            isDealer: false,
+            isSmallBlind: false,
+            isBigBlind: false,
+            hasActed: false,
+            isDisconnected: false,
+            isSittingOut: false,
+            timeBank: table.config.timeBankSec,
+            botStyle: null
+        };
+        // The buy-in (or entry fee) leaves the bankroll in the same
+        // transaction that journals the chips onto the table.
+        const [kind, cost] = tournament ? ['tournamentEntry', tournament.config.buyIn] : ['buyIn', buyIn];
+        const seated = db.transaction(() => {
+            if (adjustBalance(account.id, kind, -cost, room.name) === null) return false;
+            table.players[seatIndex] = player;
+            journalRoom(room);
+            return true;
+        })();
+        if (!seated) {
+            socket.emit('actionRejected', { code: 'INSUFFICIENT_FUNDS', message: `Your bankroll is only $${account.balance}.` });
+            return;
+        }
+        sendAccount(account.id);
+        if (!room.hostId) room.hostId = playerId;
+        addLog(room, `${name} sat at Seat ${seatIndex + 1}.`);
+        if (tournament) enterTournament(room);
+        broadcastState(room);
+        broadcastLobby();
+    });
 
-        p.hasActed = true;
-        addLog(log);
+    on('addBot', ({ seatIndex, style }) => {
+        const room = currentRoom();
+        if (!room || room.hostId !== playerId) return;
+        const { table } = room;
+        if (!Number.isInteger(seatIndex) || seatIndex < 0 || seatIndex >= table.config.seatCount) return;
+        if (table.players[seatIndex] || !BOT_STYLES.some(b => b.style === style)) return;
+        if (room.tournament && room.tournament.status !== 'REGISTERING') return;
+        table.players[seatIndex] = {
+            id: `bot-${randomUUID()}`,
+            name: getBotName(style, seatIndex),
+            chips: room.tournament ? room.tournament.config.startingStack : getDefaultBuyIn(table.config),
+            bet: 0,
+            totalBet: 0,
+            status: 'SITTING_OUT',
+            cards: [],
+            isDealer: false,
+            isSmallBlind: false,
+            isBigBlind: false,
+            hasActed: false,
+            isDisconnected: false,
+            isSittingOut: false,
+            timeBank: table.config.timeBankSec,
+            botStyle: style
+        };
+        addLog(room, `${table.players[seatIndex].name} (bot) sat at Seat ${seatIndex + 1}.`);
+        if (room.tournament) enterTournament(room);
+        broadcastState(room);
+        broadcastLobby();
+    });
 
-        const active = players.filter(pl => pl && pl.status !== 'FOLDED' && pl.status !== 'BUSTED');
-        const allActed = active.every(pl => pl.status === 'ALL_IN' || (pl.bet === gameState.currentBet && pl.hasActed));
+    on('removeBot', ({ seatIndex }) => {
+        const room = currentRoom();
+        if (!room || room.hostId !== playerId) return;
+        const p = room.table.players[seatIndex];
+        if (p && p.botStyle && canVacate(room, seatIndex)) {
+            vacateSeat(room, seatIndex);
+            broadcastState(room);
+        }
+    });
 
-        if (allActed && active.length > 0) {
-            setTimeout(nextPhase, 500);
-        } else {
-            let next = (idx + 1) % 9;
-            while (!players[next] || players[next].status !== 'PLAYING' || players[next].status === 'ALL_IN') {
-                next = (next + 1) % 9;
-                if (next === idx) break; 
-            }
-            gameState.currentPlayerIndex = next;
+    on('standUp', ({ seatIndex }) => {
+        const room = currentRoom();
+        if (!room) return;
+        const p = room.table.players[seatIndex];
+        if (p && p.id === playerId && canVacate(room, seatIndex)) {
+            vacateSeat(room, seatIndex);
+            broadcastState(room);
         }
+    });
 
-        broadcastState();
+    socket.on('startGame', () => {
+        const room = currentRoom();
+        if (!room) return;
+        const { phase } = room.table.gameState;
+        if (phase !== 'IDLE' && phase !== 'SHOWDOWN') return;
+        if (room.tournament) return; // Tournaments deal on their own
+        startDealing(room);
+    });
+
+    on('setClientSeed', ({ seed }) => {
+        if (typeof seed === 'string' && CLIENT_SEED_PATTERN.test(seed)) session.clientSeed = seed;
+    });
+
+    // A rejected move changed nothing: only the sender hears about it, and
+    // nothing is broadcast, journaled or rescheduled.
+    const commitOrReject = (room, result) => {
+        const rejected = result.events.find(e => e.type === 'actionRejected');
+        if (rejected) socket.emit('actionRejected', rejected.rejection);
+        else commit(room, result);
+    };
+
+    on('action', ({ action, amount }) => {
+        const room = currentRoom();
+        const seatIndex = room ? findSeat(room, playerId) : -1;
+        if (seatIndex === -1) {
+            socket.emit('actionRejected', { code: 'NOT_SEATED', message: 'You are not seated at this table.' });
+            return;
+        }
+        commitOrReject(room, applyAction(room.table, seatIndex, { type: action, amount }));
+    });
+
+    on('voteRuns', ({ runs }) => {
+        const room = currentRoom();
+        const seatIndex = room ? findSeat(room, playerId) : -1;
+        if (seatIndex === -1) return;
+        commitOrReject(room, voteRuns(room.table, seatIndex, runs));
+    });
+
+    // Hands this player was dealt into, newest first.
+    socket.on('listHands', (_, reply) => {
+        if (typeof reply !== 'function') return;
+        const ids = handsByPlayer.get(playerId) || [];
+        reply(ids.slice(-100).reverse().map(id => summarizeHistory(handHistories.get(id))));
+    });
+
+    // One full hand for the replayer, as this player is allowed to see it.
+    on('getHand', ({ handId }, reply) => {
+        if (typeof reply !== 'function') return;
+        const own = handsByPlayer.get(playerId) || [];
+        reply(own.includes(handId) ? projectHistory(handHistories.get(handId), playerId) : null);
+    });
+
+    // PokerStars-format text for the given hands, or the whole session.
+    on('exportHands', ({ handIds }, reply) => {
+        if (typeof reply !== 'function') return;
+        const own = handsByPlayer.get(playerId) || [];
+        const ids = Array.isArray(handIds) ? own.filter(id => handIds.includes(id)) : own;
+        const histories = ids.map(id => handHistories.get(id));
+        reply({ text: histories.length > 0 ? formatHandHistories(histories, playerId) : '' });
+    });
+
+    // Hold the seat for a grace period, then sit the player out so the
+    // table keeps moving; their stack waits for them until they stand up.
+    socket.on('disconnect', () => {
+        if (session.socketId !== socket.id) return;
+        session.socketId = null;
+        expireIdleSession(session);
+        const room = currentRoom();
+        const seatIndex = room ? findSeat(room, playerId) : -1;
+        if (seatIndex === -1) {
+            if (room) leaveRoom();
+            return;
+        }
+        const p = room.table.players[seatIndex];
+        p.isDisconnected = true;
+        addLog(room, `${p.name} disconnected.`);
+        broadcastState(room);
+        session.graceTimer = setTimeout(() => {
+            const seat = findSeat(room, playerId);
+            if (seat === -1) return;
+            room.table.players[seat].isSittingOut = true;
+            addLog(room, `${room.table.players[seat].name} is sitting out.`);
+            broadcastState(room);
+            actForAwayPlayer(room);
+        }, RECONNECT_GRACE_MS);
     });
 });
 
@@ -1,22 +1,54 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { io, Socket } from "socket.io-client";
 import { 
-  Player, GameState, GamePhase, PlayerStatus, Card as PokerCard 
+  Card as CardType, Player, GameState, GamePhase, PlayerStatus, PublicPlayer, PublicTableState, ActionRejection, TableConfig, TableSummary, BotStyle,
+  HandHistory, HandHistorySummary, PlayerStats, AccountSummary, AccountProfile, FairnessInfo,
+  TournamentConfig, TournamentState, MultiTableTournamentSummary, TournamentLobby, BettingStructure, GameVariant
 } from './types';
-import { createDeck, shuffleDeck, evaluateHand } from './utils/poker';
+import {
+  TableState, EngineResult, ActionType,
+  createInitialGameState, startHand, applyAction, nextPhase, getTotalPot, getBettingOptions, voteRuns, isRunoutVoteOpen,
+} from './engine/engine';
+import { getPotName } from './engine/pots';
+import { BOT_STYLES, decideBotAction, decideBotRuns, getBotDelayMs, getBotName } from './engine/bots';
+import { DEFAULT_TABLE_CONFIG, STAKES_PRESETS, BETTING_STRUCTURES, GAME_VARIANTS, MAX_RUNS, getDefaultBuyIn, clampBuyIn, createTableConfig, formatStakes, isStud } from './engine/config';
+import { startHistory, recordEvents, summarizeHistory, projectHistory } from './engine/history';
+import { createStats, applyHandToStats } from './engine/stats';
+import { formatHandHistories } from './engine/pokerstars';
+import { isSameCard } from './utils/poker';
+import { downloadText } from './utils/download';
+import { createClientSeed } from './utils/fairShuffle';
 import { getHandAnalysis, getStrategicAdvice } from './services/geminiService';
 import Seat from './components/Seat';
 import Card from './components/Card';
-import Chips from './components/Chips';
-
-const BIG_BLIND = 20;
-const SMALL_BLIND = 10;
+import BetControls from './components/BetControls';
+import TableLobby from './components/TableLobby';
+import HandHistoryPanel from './components/HandHistoryPanel';
+import HandReplayer from './components/HandReplayer';
+import StatsPanel from './components/StatsPanel';
+import AccountBar from './components/AccountBar';
+import ProfilePanel from './components/ProfilePanel';
+import FairnessPanel from './components/FairnessPanel';
+import TournamentPanel from './components/TournamentPanel';
+import TournamentLobbyPanel from './components/TournamentLobbyPanel';
 
 // Determine Server URL:
 // If running on localhost (dev), assume backend is on port 4000.
 // If running in production (e.g. deployed to a domain), use relative path (same origin).
 const isLocal = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
 const SERVER_URL = isLocal ? "http://localhost:4000" : window.location.origin;
+// Lets the server hand our seat back after a refresh or dropped connection
+const SESSION_TOKEN_KEY = 'poker.sessionToken';
+const OFFLINE_STATS_KEY = 'poker.offlineStats';
+const CLIENT_SEED_KEY = 'poker.clientSeed';
+
+const loadOfflineStats = (): Record<string, PlayerStats> => {
+  try {
+    return JSON.parse(localStorage.getItem(OFFLINE_STATS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
 
 const App: React.FC = () => {
   // --- UI/Lobby State ---
@@ -24,54 +56,97 @@ const App: React.FC = () => {
   const [gameMode, setGameMode] = useState<'offline' | 'online' | null>(null);
   const [mySeatIndex, setMySeatIndex] = useState<number>(-1); // -1 means spectator or not seated
   const [isConnected, setIsConnected] = useState(false);
+  const [tables, setTables] = useState<TableSummary[]>([]);
+  const [currentTable, setCurrentTable] = useState<{ tableId: string; name: string } | null>(null);
+  const [hostId, setHostId] = useState<string | null>(null); // Online: who may seat bots
+  const [botStyle, setBotStyle] = useState<BotStyle>('EQUITY'); // Style for the next bot seated
   const socketRef = useRef<Socket | null>(null);
+  const myPlayerIdRef = useRef<string | null>(null);
 
   // --- Game State ---
-  const [players, setPlayers] = useState<(Player | null)[]>(new Array(9).fill(null));
-  const [buyInAmount, setBuyInAmount] = useState(1000);
-  const [gameState, setGameState] = useState<GameState>({
-    pot: 0,
-    communityCards: [],
-    deck: [],
-    phase: GamePhase.IDLE,
-    currentPlayerIndex: -1,
-    dealerIndex: -1,
-    minBet: BIG_BLIND,
-    currentBet: 0,
-    lastRaiserIndex: null,
-    winners: [],
-    logs: ['Welcome! Please select a mode to start.'],
-  });
+  const [tableConfig, setTableConfig] = useState<TableConfig>(DEFAULT_TABLE_CONFIG);
+  const [players, setPlayers] = useState<(Player | null)[]>(new Array(DEFAULT_TABLE_CONFIG.seatCount).fill(null));
+  const [buyInAmount, setBuyInAmount] = useState(getDefaultBuyIn(DEFAULT_TABLE_CONFIG));
+  const [gameState, setGameState] = useState<GameState>(
+    createInitialGameState(DEFAULT_TABLE_CONFIG, ['Welcome! Please select a mode to start.'])
+  );
+  const table: TableState = { config: tableConfig, players, gameState };
+  // Online the server sends each seat as this client may see it; offline the
+  // engine's own players are shown.
+  const [onlinePlayers, setOnlinePlayers] = useState<(PublicPlayer | null)[]>([]);
+  const shownPlayers = gameMode === 'online' ? onlinePlayers : players;
+  const view: PublicTableState = { config: tableConfig, players: shownPlayers, gameState };
   
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
   const [aiAdvice, setAiAdvice] = useState<string>("");
+  const [actionError, setActionError] = useState<ActionRejection | null>(null);
+  const [clockOffset, setClockOffset] = useState(0); // Server time minus local time
   const [isProcessing, setIsProcessing] = useState(false);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
+  // --- Hand History ---
+  const [showHistory, setShowHistory] = useState(false);
+  const [handList, setHandList] = useState<HandHistorySummary[]>([]);
+  const [localHistories, setLocalHistories] = useState<HandHistory[]>([]); // Offline only
+  const recordingRef = useRef<HandHistory | null>(null); // Offline hand in progress
+  const [replay, setReplay] = useState<HandHistory | null>(null);
+
+  // --- Player Statistics ---
+  // Online the server sends stats for whoever is seated; offline they are
+  // kept in this browser, keyed by the stable offline player ids.
+  const [stats, setStats] = useState<Record<string, PlayerStats>>({});
+  const [offlineStats, setOfflineStats] = useState<Record<string, PlayerStats>>(loadOfflineStats);
+  const [statsPlayerId, setStatsPlayerId] = useState<string | null>(null);
+
+  // --- Account (Online only) ---
+  const [account, setAccount] = useState<AccountSummary | null>(null);
+  const [profile, setProfile] = useState<AccountProfile | null>(null);
+
+  // --- Provably Fair Shuffle (Online only) ---
+  const [clientSeed, setClientSeed] = useState(() => localStorage.getItem(CLIENT_SEED_KEY) || createClientSeed());
+  const clientSeedRef = useRef(clientSeed); // Read by the socket's connect handler
+  const [fairness, setFairness] = useState<FairnessInfo | null>(null);
+  const [showFairness, setShowFairness] = useState(false);
+  const [tournament, setTournament] = useState<TournamentState | null>(null);
+  const [tournamentId, setTournamentId] = useState<string | null>(null); // Multi-table tournament of this table
+  const [mtts, setMtts] = useState<MultiTableTournamentSummary[]>([]);
+  const [mttLobbyId, setMttLobbyId] = useState<string | null>(null);
+  const [mttLobby, setMttLobby] = useState<TournamentLobby | null>(null);
+
   // --- Helpers ---
   const addLog = (msg: string) => {
     setGameState(prev => ({ ...prev, logs: [...prev.logs, msg] }));
   };
 
-  const getNextActivePlayerIndex = (startIndex: number, currentPlayers: (Player | null)[]) => {
-    let i = (startIndex + 1) % 9;
-    let count = 0;
-    while (count < 9) {
-      const p = currentPlayers[i];
-      if (p && p.status === PlayerStatus.PLAYING && p.chips > 0) { 
-        return i;
+  // Offline only: adopt the engine's next state and react to its events.
+  const applyResult = ({ state, events }: EngineResult) => {
+    setPlayers(state.players);
+    setGameState(state.gameState);
+
+    if (events.some(e => e.type === 'handStarted')) recordingRef.current = startHistory(state, 'offline', 'Offline Practice');
+    if (recordingRef.current) {
+      recordEvents(recordingRef.current, state, events);
+      if (recordingRef.current.endedAt !== null) {
+        const finished = recordingRef.current;
+        setLocalHistories(prev => [...prev, finished]);
+        setOfflineStats(prev => {
+          const next = { ...prev };
+          applyHandToStats(finished, (id, name) => prev[id] ?? createStats(id, name)).forEach(s => { next[s.playerId] = s; });
+          return next;
+        });
+        recordingRef.current = null;
       }
-      i = (i + 1) % 9;
-      count++;
     }
-    return -1;
-  };
 
-  const getChipSummary = (currentPlayers: (Player | null)[]) => {
-    return currentPlayers
-      .filter(p => p !== null)
-      .map(p => `${p!.name}: $${p!.chips}`)
-      .join(' | ');
+    events.forEach(e => {
+      if (e.type === 'actionRejected') setActionError(e.rejection);
+      if (e.type === 'handEnded' && state.players.filter(p => p?.status === PlayerStatus.PLAYING || p?.status === PlayerStatus.ALL_IN).length > 1) {
+        const primaryWinner = state.players.find(p => p?.id === e.winners[0]?.playerId);
+        if (primaryWinner) {
+          getHandAnalysis(state.gameState.communityCards, primaryWinner.name, e.winners[0].handName, e.winners.reduce((a, w) => a + w.amount, 0)).then(setAiAnalysis);
+        }
+      }
+    });
   };
 
   // --- Multiplayer Connection ---
@@ -80,27 +155,65 @@ const App: React.FC = () => {
         // Initialize Socket
         const newSocket = io(SERVER_URL, {
             transports: ['websocket', 'polling'],
+            auth: (cb) => cb({ sessionToken: localStorage.getItem(SESSION_TOKEN_KEY) }),
+        });
+
+        newSocket.on('session', ({ sessionToken, playerId }: { sessionToken: string; playerId: string }) => {
+            localStorage.setItem(SESSION_TOKEN_KEY, sessionToken);
+            // A fresh identity (e.g. the server restarted) means our old table is gone
+            if (myPlayerIdRef.current && myPlayerIdRef.current !== playerId) {
+                setCurrentTable(null);
+                setMySeatIndex(-1);
+            }
+            myPlayerIdRef.current = playerId;
         });
 
         newSocket.on('connect', () => {
             setIsConnected(true);
+            newSocket.emit('setClientSeed', { seed: clientSeedRef.current });
             addLog("Connected to server!");
-            newSocket.emit('joinGame', { name: playerName });
+        });
+
+        newSocket.on('tableList', (list: TableSummary[]) => {
+            setTables(list);
+        });
+
+        newSocket.on('tournamentList', (list: MultiTableTournamentSummary[]) => {
+            setMtts(list);
+        });
+
+        newSocket.on('tableJoined', (joined: { tableId: string; name: string }) => {
+            setCurrentTable(joined);
+            setMySeatIndex(-1);
+        });
+
+        newSocket.on('account', (summary: AccountSummary | null) => {
+            setAccount(summary);
+        });
+
+        newSocket.on('actionRejected', (rejection: ActionRejection) => {
+            setActionError(rejection);
         });
 
         newSocket.on('disconnect', () => {
             setIsConnected(false);
-            addLog("Disconnected from server.");
+            addLog("Disconnected from server. Reconnecting...");
         });
 
         // Server pushes full state updates
-        newSocket.on('gameStateUpdate', (serverState: { players: (Player|null)[], gameState: GameState }) => {
-            setPlayers(serverState.players);
-            setGameState(serverState.gameState);
+        newSocket.on('gameStateUpdate', (serverState: PublicTableState & { serverTime: number, hostId: string | null, stats: Record<string, PlayerStats>, fairness: FairnessInfo, tournament: TournamentState | null, tournamentId: string | null }) => {
+            setClockOffset(serverState.serverTime - Date.now());
+            setHostId(serverState.hostId);
+            setStats(serverState.stats);
+            setFairness(serverState.fairness);
+            setTournament(serverState.tournament);
+            setTournamentId(serverState.tournamentId);
+            // Online the engine never runs here, so hidden (null) hole cards only reach Seat.
+            setTableConfig(serverState.config);
+            setOnlinePlayers(serverState.players);
+            setGameState({ ...serverState.gameState, deck: [] });
             
-            // Auto-detect my seat if I'm playing (simple name match, robust enough for casual)
-            const myIdx = serverState.players.findIndex(p => p && p.name === playerName);
-            if (myIdx !== -1) setMySeatIndex(myIdx);
+            setMySeatIndex(serverState.players.findIndex(p => p?.id === myPlayerIdRef.current));
         });
 
         socketRef.current = newSocket;
@@ -109,42 +222,123 @@ const App: React.FC = () => {
             newSocket.disconnect();
         };
     }
-  }, [gameMode, playerName]);
+  }, [gameMode]);
 
 
   // --- Actions (Hybrid: Online emits, Offline runs logic) ---
 
+  const joinTable = (tableId: string) => {
+    socketRef.current?.emit('joinTable', { tableId });
+  };
+
+  const createOnlineTable = (name: string, config: TableConfig) => {
+    socketRef.current?.emit('createTable', { name, config });
+  };
+
+  const createMtt = (name: string, config: Partial<TournamentConfig> & { seatCount: number; maxEntrants: number }) => {
+    socketRef.current?.emit('createMtt', { name, tournament: config });
+  };
+
+  // Resolves to an error message, or null once done.
+  const requestMtt = (event: 'registerMtt' | 'unregisterMtt') => (tournamentId: string) =>
+      new Promise<string | null>(resolve => {
+          if (!socketRef.current) return resolve('Not connected to the server.');
+          socketRef.current.emit(event, { tournamentId }, ({ error }: { error?: string }) => resolve(error ?? null));
+      });
+
+  // The open tournament lobby refreshes while it is showing.
+  useEffect(() => {
+      if (!mttLobbyId) {
+          setMttLobby(null);
+          return;
+      }
+      const refresh = () => socketRef.current?.emit('getMttLobby', { tournamentId: mttLobbyId }, (lobby: TournamentLobby | null) => setMttLobby(lobby));
+      refresh();
+      const timer = setInterval(refresh, 3000);
+      return () => clearInterval(timer);
+  }, [mttLobbyId]);
+
+  const createOnlineTournament = (name: string, seatCount: number, config: Partial<TournamentConfig>) => {
+    socketRef.current?.emit('createTournament', { name, seatCount, tournament: config });
+  };
+
+  // Resolves to an error message, or null once logged in.
+  const authenticate = (event: 'login' | 'register') => (username: string, password: string) =>
+      new Promise<string | null>(resolve => {
+          if (!socketRef.current) return resolve('Not connected to the server.');
+          socketRef.current.emit(event, { username, password }, ({ error }: { error?: string }) => resolve(error ?? null));
+      });
+
+  const showProfile = () => {
+      socketRef.current?.emit('getProfile', null, (p: AccountProfile | null) => setProfile(p));
+  };
+
+  const changeClientSeed = (seed: string) => {
+      clientSeedRef.current = seed;
+      setClientSeed(seed);
+      socketRef.current?.emit('setClientSeed', { seed });
+  };
+
+  const leaveTable = () => {
+    socketRef.current?.emit('leaveTable');
+    setCurrentTable(null);
+    setMySeatIndex(-1);
+    setTournament(null);
+    setTournamentId(null);
+    setOnlinePlayers([]);
+    setGameState(createInitialGameState(DEFAULT_TABLE_CONFIG));
+  };
+
   const handleSit = (index: number) => {
+    // Once seated, clicking another empty seat fills it with a bot instead
+    const isBot = mySeatIndex !== -1 && index !== mySeatIndex
+        && (gameMode === 'offline' || (hostId !== null && hostId === myPlayerIdRef.current));
+
     if (gameMode === 'online') {
-        socketRef.current?.emit('sit', { seatIndex: index, buyIn: buyInAmount, name: playerName });
+        if (isBot) {
+            socketRef.current?.emit('addBot', { seatIndex: index, style: botStyle });
+            return;
+        }
+        socketRef.current?.emit('sit', { seatIndex: index, buyIn: clampBuyIn(tableConfig, buyInAmount) });
         return;
     }
 
     // Offline Logic
+    // Ids stay the same between visits so offline stats carry over.
+    const id = isBot ? `local-bot-${index}-${botStyle}` : 'local-me';
+    if (!isBot) myPlayerIdRef.current = id;
     setPlayers(prev => {
       const newPlayers = [...prev];
       newPlayers[index] = {
-        id: Date.now() + index,
-        name: gameMode === 'offline' && index === 0 ? playerName : `Player ${index + 1}`, // In offline, seat 0 is 'me' usually
-        chips: buyInAmount,
+        id,
+        name: isBot ? getBotName(botStyle, index) : playerName,
+        chips: clampBuyIn(tableConfig, buyInAmount),
         bet: 0,
+        totalBet: 0,
         status: PlayerStatus.SITTING_OUT,
         cards: [],
         isDealer: false,
         isSmallBlind: false,
         isBigBlind: false,
         hasActed: false,
+        isDisconnected: false,
+        isSittingOut: false,
+        timeBank: tableConfig.timeBankSec,
+        botStyle: isBot ? botStyle : null,
       };
       return newPlayers;
     });
     
-    // In offline mode, if I sit at seat 0, I am seat 0.
-    if (index === 0) setMySeatIndex(0);
+    if (!isBot) setMySeatIndex(index);
     
-    addLog(`Player ${index + 1} sat at seat ${index + 1}.`);
+    addLog(isBot ? `${getBotName(botStyle, index)} (bot) sat at seat ${index + 1}.` : `${playerName} sat at seat ${index + 1}.`);
   };
 
   const handleLeave = (index: number) => {
+    if (gameMode === 'online' && shownPlayers[index]?.botStyle) {
+        socketRef.current?.emit('removeBot', { seatIndex: index });
+        return;
+    }
     // Only allow leaving my own seat or if offline
     if (gameMode === 'online' && index !== mySeatIndex) return;
 
@@ -169,11 +363,20 @@ const App: React.FC = () => {
       if (gameState.phase === GamePhase.IDLE && gameMode === 'offline') {
           setPlayers(prev => prev.map(p => {
               if (!p) return null;
-              return { ...p, chips: amount };
+              return { ...p, chips: clampBuyIn(tableConfig, amount) };
           }));
       }
   };
 
+  // Offline tables are created from the lobby with the chosen stakes
+  const chooseStakes = (input: TableConfig) => {
+      const config = createTableConfig(input);
+      setTableConfig(config);
+      setBuyInAmount(getDefaultBuyIn(config));
+      setPlayers(new Array(config.seatCount).fill(null));
+      setGameState(prev => createInitialGameState(config, prev.logs));
+  };
+
   const startGame = () => {
     if (gameMode === 'online') {
         socketRef.current?.emit('startGame');
@@ -181,363 +384,114 @@ const App: React.FC = () => {
     }
 
     // Offline Logic
-    const activeCount = players.filter(p => p !== null).length;
-    if (activeCount < 2) {
-      addLog("Need at least 2 players to start.");
-      return;
-    }
-    const firstDealer = players.findIndex(p => p !== null);
-    setGameState(prev => ({ ...prev, dealerIndex: firstDealer }));
-    startNewHand(firstDealer);
-  };
-
-  // --- Offline Game Logic (Only runs if gameMode === 'offline') ---
-
-  const startNewHand = (dealerIdx: number) => {
     setAiAnalysis(null);
     setAiAdvice("");
-    const deck = shuffleDeck(createDeck());
-    
-    const activePlayersIndices: number[] = [];
-    const newPlayers = players.map((p, idx) => {
-      if (!p) return null;
-      if (p.chips <= 0) return { ...p, status: PlayerStatus.BUSTED, bet: 0, cards: [], hasActed: false };
-      activePlayersIndices.push(idx);
-      return { 
-        ...p, 
-        status: PlayerStatus.PLAYING, 
-        bet: 0, 
-        cards: [], 
-        isDealer: idx === dealerIdx,
-        isSmallBlind: false, 
-        isBigBlind: false,
-        hasActed: false,
-      };
-    });
-
-    if (activePlayersIndices.length < 2) {
-        addLog("Not enough players with chips!");
-        setGameState(prev => ({...prev, phase: GamePhase.IDLE}));
-        setPlayers(newPlayers);
-        return;
-    }
-
-    let sbIdx = -1;
-    let bbIdx = -1;
-
-    if (activePlayersIndices.length === 2) {
-       sbIdx = dealerIdx; 
-       bbIdx = activePlayersIndices.find(i => i !== dealerIdx) || -1;
-    } else {
-       let ptr = (dealerIdx + 1) % 9;
-       while(!newPlayers[ptr] || newPlayers[ptr]?.status !== PlayerStatus.PLAYING) ptr = (ptr + 1) % 9;
-       sbIdx = ptr;
-       
-       ptr = (ptr + 1) % 9;
-       while(!newPlayers[ptr] || newPlayers[ptr]?.status !== PlayerStatus.PLAYING) ptr = (ptr + 1) % 9;
-       bbIdx = ptr;
-    }
-
-    if (newPlayers[sbIdx]) {
-      const sbAmt = Math.min(SMALL_BLIND, newPlayers[sbIdx]!.chips);
-      newPlayers[sbIdx]!.chips -= sbAmt;
-      newPlayers[sbIdx]!.bet = sbAmt;
-      newPlayers[sbIdx]!.isSmallBlind = true;
-      if (newPlayers[sbIdx]!.chips === 0) newPlayers[sbIdx]!.status = PlayerStatus.ALL_IN;
-    }
-
-    if (newPlayers[bbIdx]) {
-      const bbAmt = Math.min(BIG_BLIND, newPlayers[bbIdx]!.chips);
-      newPlayers[bbIdx]!.chips -= bbAmt;
-      newPlayers[bbIdx]!.bet = bbAmt;
-      newPlayers[bbIdx]!.isBigBlind = true;
-      if (newPlayers[bbIdx]!.chips === 0) newPlayers[bbIdx]!.status = PlayerStatus.ALL_IN;
-    }
+    applyResult(startHand(table));
+  };
 
-    newPlayers.forEach(p => {
-      if (p && p.status === PlayerStatus.PLAYING) {
-        p.cards = [deck.pop()!, deck.pop()!];
+  const handleAction = (action: ActionType, amount: number = 0) => {
+      if (gameMode === 'online') {
+          socketRef.current?.emit('action', { action, amount });
+          return;
       }
-    });
 
-    let nextToAct = (bbIdx + 1) % 9;
-    while(!newPlayers[nextToAct] || newPlayers[nextToAct]?.status !== PlayerStatus.PLAYING) {
-        nextToAct = (nextToAct + 1) % 9;
-    }
-
-    setPlayers(newPlayers);
-    setGameState({
-      pot: 0,
-      communityCards: [],
-      deck,
-      phase: GamePhase.PREFLOP,
-      currentPlayerIndex: nextToAct,
-      dealerIndex: dealerIdx,
-      minBet: BIG_BLIND,
-      currentBet: BIG_BLIND,
-      lastRaiserIndex: bbIdx,
-      winners: [],
-      logs: [`New hand dealt. Blinds ${SMALL_BLIND}/${BIG_BLIND}.`],
-    });
-  };
-
-  const collectBetsToPot = (currentPlayers: (Player|null)[]) => {
-     let roundPot = 0;
-     const updatedPlayers = currentPlayers.map(p => {
-         if (!p) return null;
-         roundPot += p.bet;
-         return { ...p, bet: 0, hasActed: false };
-     });
-     return { updatedPlayers, roundPot };
+      // Offline Logic
+      applyResult(applyAction(table, gameState.currentPlayerIndex, { type: action, amount }));
   };
 
-  const nextPhase = () => {
-    setGameState(prev => {
-        const { updatedPlayers, roundPot } = collectBetsToPot(players);
-        const newPot = prev.pot + roundPot;
-        
-        // CRITICAL FIX: Use 'any[]' to bypass strict TypeScript checks that cause build failures
-        const newDeck = [...prev.deck] as any[];
-        let newCommunityCards = [...prev.communityCards] as any[];
-        
-        let nextPhase = prev.phase;
-        let logMsg = "";
-
-        const activeCount = updatedPlayers.filter(p => p && p.status !== PlayerStatus.FOLDED && p.status !== PlayerStatus.BUSTED).length;
-        if (activeCount === 1) {
-            handleShowdown(updatedPlayers, newCommunityCards, newPot, true);
-            return prev; 
-        }
-
-        switch (prev.phase) {
-            case GamePhase.PREFLOP:
-                if (newDeck.length >= 3) {
-                    newCommunityCards.push(newDeck.pop()!, newDeck.pop()!, newDeck.pop()!);
-                    nextPhase = GamePhase.FLOP;
-                    logMsg = "Flop dealt.";
-                }
-                break;
-            case GamePhase.FLOP:
-                if (newDeck.length >= 1) {
-                    newCommunityCards.push(newDeck.pop()!);
-                    nextPhase = GamePhase.TURN;
-                    logMsg = "Turn dealt.";
-                }
-                break;
-            case GamePhase.TURN:
-                if (newDeck.length >= 1) {
-                    newCommunityCards.push(newDeck.pop()!);
-                    nextPhase = GamePhase.RIVER;
-                    logMsg = "River dealt.";
-                }
-                break;
-            case GamePhase.RIVER:
-                nextPhase = GamePhase.SHOWDOWN;
-                logMsg = "Showdown!";
-                break;
-        }
-
-        if (nextPhase === GamePhase.SHOWDOWN) {
-            const winners = computeWinners(updatedPlayers, newCommunityCards, newPot);
-            const chipSummary = getChipSummary(updatedPlayers);
-            setPlayers(updatedPlayers);
-            return {
-                ...prev,
-                pot: 0,
-                communityCards: newCommunityCards,
-                deck: newDeck,
-                phase: GamePhase.SHOWDOWN,
-                currentPlayerIndex: -1,
-                winners: winners,
-                logs: [...prev.logs, logMsg, `End of Hand Stats: ${chipSummary}`]
-            };
-        }
-
-        let nextIdx = (prev.dealerIndex + 1) % 9;
-        let safety = 0;
-        while ((!updatedPlayers[nextIdx] || updatedPlayers[nextIdx]!.status !== PlayerStatus.PLAYING) && safety < 10) {
-             nextIdx = (nextIdx + 1) % 9;
-             safety++;
-        }
-        
-        setPlayers(updatedPlayers);
-        return {
-            ...prev,
-            pot: newPot,
-            communityCards: newCommunityCards,
-            deck: newDeck,
-            phase: nextPhase,
-            currentPlayerIndex: nextIdx,
-            minBet: 0,
-            currentBet: 0,
-            lastRaiserIndex: null,
-            logs: [...prev.logs, logMsg]
-        };
-    });
+  const openHistory = () => {
+      setShowHistory(true);
+      if (gameMode === 'online') {
+          socketRef.current?.emit('listHands', null, (list: HandHistorySummary[]) => setHandList(list));
+          return;
+      }
+      setHandList(localHistories.map(summarizeHistory).reverse());
   };
 
-  const computeWinners = (currentPlayers: (Player|null)[], board: PokerCard[], totalPot: number) => {
-      const candidates = currentPlayers.filter(p => p && p.status !== PlayerStatus.FOLDED && p.status !== PlayerStatus.BUSTED);
-      
-      const evaluations = candidates.map(p => {
-          if (!p) return null;
-          const ev = evaluateHand(p.cards, board);
-          return { playerId: p.id, score: ev.score, name: ev.name, playerIndex: currentPlayers.indexOf(p) };
-      }).filter(e => e !== null);
-
-      if (evaluations.length === 0) return [];
-
-      evaluations.sort((a, b) => b!.score - a!.score);
-      const highScore = evaluations[0]!.score;
-      
-      const winningEvals = evaluations.filter(e => e!.score === highScore);
-      const splitAmount = Math.floor(totalPot / winningEvals.length);
-
-      const updatedPlayers = [...currentPlayers];
-      
-      const resultWinners = winningEvals.map(w => {
-           const pIdx = w!.playerIndex;
-           updatedPlayers[pIdx]!.chips += splitAmount;
-           return { playerId: w!.playerId, handName: w!.name, amount: splitAmount };
-      });
-
-      setPlayers(updatedPlayers);
-
-      const primaryWinner = updatedPlayers[winningEvals[0]!.playerIndex];
-      if (primaryWinner) {
-         getHandAnalysis(board, primaryWinner.name, winningEvals[0]!.name, totalPot).then(setAiAnalysis);
+  // One hand, or the whole session when handId is null, as PokerStars text.
+  const downloadHistory = (handId: string | null) => {
+      const filename = handId ? `HH${handId}.txt` : `HH-session-${new Date().toISOString().slice(0, 10)}.txt`;
+      if (gameMode === 'online') {
+          socketRef.current?.emit('exportHands', { handIds: handId ? [handId] : undefined }, ({ text }: { text: string }) => {
+              if (text) downloadText(filename, text);
+          });
+          return;
       }
-
-      return resultWinners;
+      const selected = handId ? localHistories.filter(h => h.handId === handId) : localHistories;
+      if (selected.length > 0) downloadText(filename, formatHandHistories(selected, myPlayerIdRef.current));
   };
 
-  const handleShowdown = (currentPlayers: (Player|null)[], board: PokerCard[], totalPot: number, foldedWin: boolean = false) => {
-      if (foldedWin) {
-          const winner = currentPlayers.find(p => p && p.status !== PlayerStatus.FOLDED && p.status !== PlayerStatus.BUSTED);
-          if (winner) {
-              const uPlayers = [...currentPlayers];
-              const wIdx = uPlayers.indexOf(winner);
-              uPlayers[wIdx]!.chips += totalPot;
-              setPlayers(uPlayers);
-              const chipSummary = getChipSummary(uPlayers);
-              setGameState(prev => ({
-                  ...prev,
-                  pot: 0,
-                  phase: GamePhase.SHOWDOWN,
-                  winners: [{ playerId: winner.id, handName: 'Opponents Folded', amount: totalPot }],
-                  currentPlayerIndex: -1,
-                  logs: [...prev.logs, `${winner.name} wins $${totalPot} (opponents folded).`, `End of Hand Stats: ${chipSummary}`]
-              }));
-          }
+  const openReplay = (handId: string) => {
+      if (gameMode === 'online') {
+          socketRef.current?.emit('getHand', { handId }, (history: HandHistory | null) => setReplay(history));
+          return;
       }
+      const history = localHistories.find(h => h.handId === handId);
+      // Same view as online: other players' cards only if they were shown.
+      setReplay(history ? projectHistory(history, myPlayerIdRef.current) : null);
   };
 
-  const handleAction = (action: 'fold' | 'check' | 'call' | 'raise', amount: number = 0) => {
+  const handleVoteRuns = (runs: number) => {
       if (gameMode === 'online') {
-          socketRef.current?.emit('action', { action, amount });
+          socketRef.current?.emit('voteRuns', { runs });
           return;
       }
 
       // Offline Logic
-      const idx = gameState.currentPlayerIndex;
-      if (idx === -1) return;
-      
-      const player = players[idx];
-      if (!player) return;
-
-      let newPlayers = [...players];
-      let p = { ...player };
-      let newLog = "";
-      
-      const callAmount = gameState.currentBet - p.bet;
-
-      if (action === 'fold') {
-          p.status = PlayerStatus.FOLDED;
-          newLog = `${p.name} folds.`;
-      } else if (action === 'check') {
-          if (callAmount > 0) return;
-          newLog = `${p.name} checks.`;
-      } else if (action === 'call') {
-          const actualCall = Math.min(callAmount, p.chips);
-          p.chips -= actualCall;
-          p.bet += actualCall;
-          if (p.chips === 0) p.status = PlayerStatus.ALL_IN;
-          newLog = `${p.name} calls ${actualCall}.`;
-      } else if (action === 'raise') {
-          const totalBet = gameState.currentBet + amount;
-          const addedChips = totalBet - p.bet;
-          if (addedChips >= p.chips) {
-              p.bet += p.chips;
-              p.chips = 0;
-              p.status = PlayerStatus.ALL_IN;
-              newLog = `${p.name} goes All-In!`;
-          } else {
-              p.chips -= addedChips;
-              p.bet += addedChips;
-              newLog = `${p.name} raises to ${p.bet}.`;
-          }
-      }
-
-      p.hasActed = true;
-      newPlayers[idx] = p;
-      addLog(newLog);
-
-      setPlayers(newPlayers);
-      setGameState(prev => {
-          let newCurrentBet = prev.currentBet;
-          let newLastRaiser = prev.lastRaiserIndex;
-
-          if (action === 'raise' || (action === 'call' && p.bet > prev.currentBet)) {
-              newCurrentBet = p.bet;
-              newLastRaiser = idx;
-          }
-
-          return {
-              ...prev,
-              currentBet: newCurrentBet,
-              lastRaiserIndex: newLastRaiser,
-              logs: [...prev.logs, newLog]
-          };
-      });
+      applyResult(voteRuns(table, mySeatIndex, runs));
   };
 
-  // Turn Management Effect (Only Offline)
+  // Street Advance Effect (Only Offline): once betting closes, deal the next street.
   useEffect(() => {
       if (gameMode !== 'offline') return;
       if (gameState.phase === GamePhase.IDLE || gameState.phase === GamePhase.SHOWDOWN) return;
+      if (gameState.currentPlayerIndex !== -1 || isRunoutVoteOpen(gameState)) return;
 
-      const activePlayers = players.filter(p => p && p.status !== PlayerStatus.FOLDED && p.status !== PlayerStatus.BUSTED);
-      
-      if (activePlayers.length === 1) {
-          handleShowdown(players, gameState.communityCards, gameState.pot + players.reduce((a,b)=>a+(b?.bet||0),0), true);
-          return;
-      }
+      const timer = setTimeout(() => {
+          applyResult(nextPhase(table));
+      }, 600);
+      return () => clearTimeout(timer);
+  }, [players, gameState, gameMode]);
 
-      const relevantPlayers = players.filter(p => p && p.status !== PlayerStatus.FOLDED && p.status !== PlayerStatus.BUSTED);
-      const allMatched = relevantPlayers.every(p => {
-          if (p!.status === PlayerStatus.ALL_IN) return true; 
-          return p!.bet === gameState.currentBet && p!.hasActed;
-      });
+  // Bot Turn Effect (Only Offline): the server drives bots at online tables.
+  useEffect(() => {
+      if (gameMode !== 'offline') return;
+      const seatIndex = gameState.currentPlayerIndex;
+      if (seatIndex === -1 || !players[seatIndex]?.botStyle) return;
 
-      if (allMatched && relevantPlayers.length > 0) {
-          const timer = setTimeout(() => {
-              nextPhase();
-          }, 600);
-          return () => clearTimeout(timer);
-      }
+      const timer = setTimeout(() => {
+          applyResult(applyAction(table, seatIndex, decideBotAction(table, seatIndex)));
+      }, getBotDelayMs());
+      return () => clearTimeout(timer);
+  }, [players, gameState, gameMode]);
 
-      const currIdx = gameState.currentPlayerIndex;
-      const currPlayer = players[currIdx];
+  // Bots answer an open run-it-twice vote one at a time (Only Offline)
+  useEffect(() => {
+      if (gameMode !== 'offline' || !isRunoutVoteOpen(gameState)) return;
+      const { seats, votes } = gameState.runoutVote!;
+      const botSeat = seats.find((seat, i) => votes[i] === null && players[seat]?.botStyle);
+      if (botSeat === undefined) return;
 
-      if (!currPlayer || currPlayer.status !== PlayerStatus.PLAYING) {
-           const next = getNextActivePlayerIndex(currIdx, players);
-           if (next !== -1 && next !== currIdx) {
-               setGameState(prev => ({ ...prev, currentPlayerIndex: next }));
-           }
-      }
+      const timer = setTimeout(() => {
+          applyResult(voteRuns(table, botSeat, decideBotRuns()));
+      }, getBotDelayMs());
+      return () => clearTimeout(timer);
+  }, [players, gameState, gameMode]);
+
+  useEffect(() => {
+      localStorage.setItem(OFFLINE_STATS_KEY, JSON.stringify(offlineStats));
+  }, [offlineStats]);
 
-  }, [players, gameState.currentPlayerIndex, gameState.currentBet, gameState.phase, gameMode]);
+  useEffect(() => {
+      localStorage.setItem(CLIENT_SEED_KEY, clientSeed);
+  }, [clientSeed]);
 
+  // Rejection notices fade on their own
+  useEffect(() => {
+      if (!actionError) return;
+      const timer = setTimeout(() => setActionError(null), 3000);
+      return () => clearTimeout(timer);
+  }, [actionError]);
 
   // Auto-scroll logs
   useEffect(() => {
@@ -567,13 +521,50 @@ const App: React.FC = () => {
                       />
                   </div>
 
+                  <div className="mb-6 text-left">
+                      <label className="block text-xs font-bold text-gray-400 uppercase mb-2">Offline Stakes</label>
+                      <select
+                        value={STAKES_PRESETS.findIndex(s => s.config.bigBlind === tableConfig.bigBlind)}
+                        onChange={(e) => chooseStakes({ ...STAKES_PRESETS[parseInt(e.target.value)].config, variant: tableConfig.variant, bettingStructure: tableConfig.bettingStructure })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded p-3 text-white focus:border-yellow-500 focus:outline-none"
+                      >
+                          {STAKES_PRESETS.map((s, i) => (
+                              <option key={s.label} value={i}>{s.label}</option>
+                          ))}
+                      </select>
+                      <select
+                        value={tableConfig.variant}
+                        onChange={(e) => {
+                            const variant = GAME_VARIANTS.find(v => v.variant === e.target.value as GameVariant)!;
+                            // Stud brings its own ante and fewer seats
+                            chooseStakes({ ...tableConfig, variant: variant.variant, bettingStructure: variant.structure, ante: 0, seatCount: DEFAULT_TABLE_CONFIG.seatCount });
+                        }}
+                        className="w-full mt-2 bg-gray-900 border border-gray-600 rounded p-3 text-white focus:border-yellow-500 focus:outline-none"
+                      >
+                          {GAME_VARIANTS.map(v => (
+                              <option key={v.variant} value={v.variant}>{v.label}</option>
+                          ))}
+                      </select>
+                      {!isStud(tableConfig) && (
+                        <select
+                          value={tableConfig.bettingStructure}
+                          onChange={(e) => chooseStakes({ ...tableConfig, bettingStructure: e.target.value as BettingStructure })}
+                          className="w-full mt-2 bg-gray-900 border border-gray-600 rounded p-3 text-white focus:border-yellow-500 focus:outline-none"
+                        >
+                            {BETTING_STRUCTURES.map(b => (
+                                <option key={b.structure} value={b.structure}>{b.label}</option>
+                            ))}
+                        </select>
+                      )}
+                  </div>
+
                   <div className="grid grid-cols-2 gap-4">
                       <button 
-                        onClick={() => { setGameMode('offline'); setMySeatIndex(0); handleSit(0); }} // Auto sit seat 0 in offline
+                        onClick={() => { setGameMode('offline'); handleSit(0); }} // Auto sit seat 0 in offline
                         className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-4 rounded border-2 border-gray-600 hover:border-white transition-all"
                       >
                           Offline Practice
-                          <span className="block text-[10px] font-normal text-gray-400 mt-1">vs Local Logic</span>
+                          <span className="block text-[10px] font-normal text-gray-400 mt-1">vs Computer Bots</span>
                       </button>
                       <button 
                         onClick={() => setGameMode('online')}
@@ -588,29 +579,87 @@ const App: React.FC = () => {
       );
   }
 
-  // 2. Main Game Table
-  const currentPlayer = gameState.currentPlayerIndex !== -1 ? players[gameState.currentPlayerIndex] : null;
+  const mttLobbyPanel = mttLobby && (
+      <TournamentLobbyPanel
+          lobby={mttLobby}
+          myPlayerId={myPlayerIdRef.current}
+          onAddBot={(style) => socketRef.current?.emit('addMttBot', { tournamentId: mttLobby.id, style })}
+          onStart={() => socketRef.current?.emit('startMtt', { tournamentId: mttLobby.id })}
+          onWatch={(tableId) => {
+              setMttLobbyId(null);
+              joinTable(tableId);
+          }}
+          onClose={() => setMttLobbyId(null)}
+      />
+  );
+
+  // 2. Online Table Lobby
+  if (gameMode === 'online' && !currentTable) {
+      return (
+          <div className="relative w-full h-full">
+              <TableLobby
+                  tables={tables}
+                  isConnected={isConnected}
+                  onJoin={joinTable}
+                  onCreate={createOnlineTable}
+                  onCreateTournament={createOnlineTournament}
+                  tournaments={mtts}
+                  myPlayerId={myPlayerIdRef.current}
+                  onCreateMtt={createMtt}
+                  onRegisterMtt={requestMtt('registerMtt')}
+                  onUnregisterMtt={requestMtt('unregisterMtt')}
+                  onOpenMtt={setMttLobbyId}
+                  onRefresh={() => socketRef.current?.emit('listTables')}
+                  onBack={() => setGameMode(null)}
+                  accountBar={
+                      <AccountBar
+                          account={account}
+                          onLogin={authenticate('login')}
+                          onRegister={authenticate('register')}
+                          onLogout={() => socketRef.current?.emit('logout')}
+                          onShowProfile={showProfile}
+                      />
+                  }
+              />
+              {profile && <ProfilePanel profile={profile} onClose={() => setProfile(null)} />}
+              {mttLobbyPanel}
+          </div>
+      );
+  }
+
+  // 3. Main Game Table
+  const currentPlayer = gameState.currentPlayerIndex !== -1 ? shownPlayers[gameState.currentPlayerIndex] : null;
   // In Online mode, it is my turn ONLY if the current player index matches my seat index
   const isMyTurn = gameState.currentPlayerIndex === mySeatIndex; 
-  // In Offline mode, I control everyone (Hotseat) OR just seat 0? Let's keep hotseat for offline for now or seat 0.
-  // Actually, user requested "Multiplayer". So Offline should probably be "Hotseat" (debug mode) or AI.
-  // For simplicity: Offline = I control whoever is active. Online = I only control my seat.
-  const canAct = gameMode === 'online' ? isMyTurn : true;
+  // Offline, every seat but mine is a bot, so both modes act only on my turn.
+  const canAct = isMyTurn;
+  // Offline I own the table; online only the host may seat bots.
+  const canSeatBots = mySeatIndex !== -1 && (gameMode === 'offline' || (hostId !== null && hostId === myPlayerIdRef.current));
+
+  // Every card that made up a winning hand lights up at showdown
+  const seenStats = gameMode === 'online' ? stats : offlineStats;
+
+  const winningAwards = gameState.phase === GamePhase.SHOWDOWN ? gameState.winners : [];
+  const winningCards = winningAwards.flatMap(w => w.cards);
+  const runs = [gameState.communityCards, ...gameState.boards];
+  const myRunoutVote = gameState.runoutVote && isRunoutVoteOpen(gameState)
+      ? gameState.runoutVote.votes[gameState.runoutVote.seats.indexOf(mySeatIndex)]
+      : undefined;
 
-  const callAmount = currentPlayer ? gameState.currentBet - currentPlayer.bet : 0;
-  const minRaise = BIG_BLIND; 
+  const bettingOptions = currentPlayer ? getBettingOptions(view, gameState.currentPlayerIndex) : null;
+  const callAmount = bettingOptions?.callAmount ?? 0;
 
   const requestAdvice = async () => {
       // Logic to get advice for "Me"
-      const p = players[mySeatIndex];
+      const p = shownPlayers[mySeatIndex];
       if (!p) return;
       
       setIsProcessing(true);
       const advice = await getStrategicAdvice(
-          p.cards, 
+          p.cards.filter((c): c is CardType => c !== null), 
           gameState.communityCards, 
           gameState.phase, 
-          gameState.pot + players.reduce((a, b) => a + (b?.bet || 0), 0),
+          getTotalPot(view),
           gameState.currentBet - p.bet
       );
       setAiAdvice(advice);
@@ -628,23 +677,82 @@ const App: React.FC = () => {
         {gameMode === 'online' && (
             <div className={`text-xs mt-1 font-bold ${isConnected ? 'text-green-500' : 'text-red-500'}`}>
                 {isConnected ? '● Connected' : '○ Disconnected (Start Server)'}
+                {currentTable && <span className="text-gray-300 ml-2">· {currentTable.name}</span>}
+                {account && <span className="text-gray-300 ml-2">· Bankroll <span className="text-yellow-400 font-mono">${account.balance}</span></span>}
             </div>
         )}
+        {gameMode === 'online' && (
+            <button
+                onClick={leaveTable}
+                className="pointer-events-auto mt-1 text-xs text-blue-300 hover:text-blue-100 underline"
+            >
+                ← Back to Lobby
+            </button>
+        )}
+        <button
+            onClick={() => (showHistory ? setShowHistory(false) : openHistory())}
+            className="pointer-events-auto mt-1 ml-3 text-xs text-blue-300 hover:text-blue-100 underline"
+        >
+            Hand History
+        </button>
+        {gameMode === 'online' && (
+            <button
+                onClick={() => setShowFairness(true)}
+                className="pointer-events-auto mt-1 ml-3 text-xs text-blue-300 hover:text-blue-100 underline"
+            >
+                Fairness
+            </button>
+        )}
       </div>
 
+      {gameMode === 'online' && tournament && (
+          <TournamentPanel
+              tournament={tournament}
+              clockOffset={clockOffset}
+              onShowLobby={tournamentId ? () => setMttLobbyId(tournamentId) : undefined}
+          />
+      )}
+
+      {mttLobbyPanel}
+
+      {showFairness && (
+          <FairnessPanel info={fairness} clientSeed={clientSeed} onClientSeedChange={changeClientSeed} onClose={() => setShowFairness(false)} />
+      )}
+
+      {showHistory && (
+          <HandHistoryPanel hands={handList} onDownload={downloadHistory} onReplay={openReplay} onClose={() => setShowHistory(false)} />
+      )}
+
+      {statsPlayerId && seenStats[statsPlayerId] && (
+          <StatsPanel stats={seenStats[statsPlayerId]} onClose={() => setStatsPlayerId(null)} />
+      )}
+
+      {replay && <HandReplayer history={replay} viewerId={myPlayerIdRef.current} onClose={() => setReplay(null)} />}
+
       {/* Main Table Area */}
       <div className="flex-1 relative flex items-center justify-center bg-gray-900 perspective-1000">
         
         {/* The Felt */}
         <div className="relative w-[90%] max-w-[1000px] aspect-[1.8/1] bg-felt rounded-[300px] border-[16px] border-[#3a2a1a] shadow-[0_0_50px_rgba(0,0,0,0.8),inset_0_0_100px_rgba(0,0,0,0.6)] flex items-center justify-center">
             
-            {/* Community Cards */}
-            <div className="flex space-x-2 z-10 mb-8">
-                {gameState.communityCards.map((c, i) => (
-                    <Card key={i} card={c} className="shadow-2xl" />
-                ))}
-                {Array(5 - gameState.communityCards.length).fill(0).map((_, i) => (
-                    <div key={`placeholder-${i}`} className="w-12 h-16 border-2 border-white/10 rounded-md" />
+            {/* Community Cards: one row per run when the hand is run more than once */}
+            <div className="flex flex-col items-center space-y-1 z-10 mb-8">
+                {runs.map((board, run) => (
+                    <div key={run} className="flex items-center space-x-2">
+                        {runs.length > 1 && <span className="text-[10px] text-white/60 font-bold uppercase w-10">Run {run + 1}</span>}
+                        {board.map((c, i) => (
+                            <Card
+                                key={i}
+                                card={c}
+                                size={runs.length > 1 ? 'sm' : 'md'}
+                                className="shadow-2xl"
+                                highlighted={winningAwards.some(w => w.runIndex === run && w.cards.some(wc => isSameCard(wc, c)))}
+                            />
+                        ))}
+                        {Array(5 - board.length).fill(0).map((_, i) => (
+                            <div key={`placeholder-${i}`} className={`${runs.length > 1 ? 'w-8 h-12' : 'w-12 h-16'} border-2 border-white/10 rounded-md`} />
+                        ))}
+                    </div>
                 ))}
             </div>
 
@@ -652,28 +760,48 @@ const App: React.FC = () => {
             <div className="absolute top-[60%] left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center">
                 <div className="text-white/50 text-xs font-bold uppercase tracking-widest mb-1">Total Pot</div>
                 <div className="flex items-center space-x-1 bg-black/40 px-4 py-1 rounded-full border border-white/10">
-                    <span className="text-yellow-400 font-mono text-lg">${gameState.pot + players.reduce((a, b) => a + (b?.bet || 0), 0)}</span>
+                    <span className="text-yellow-400 font-mono text-lg">${getTotalPot(view)}</span>
                 </div>
+                {gameState.pots.length > 1 && (
+                    <div className="flex space-x-2 mt-1 text-[10px] text-white/60 font-mono">
+                        {gameState.pots.map((pot, i) => (
+                            <span key={i}>{getPotName(i)}: ${pot.amount}</span>
+                        ))}
+                    </div>
+                )}
                 <div className="h-4"></div>
                 {gameState.phase === GamePhase.SHOWDOWN && gameState.winners.length > 0 && (
-                     <div className="bg-yellow-500 text-black px-3 py-1 rounded font-bold animate-pulse shadow-lg whitespace-nowrap z-50">
-                        {gameState.winners.map(w => `${players[players.findIndex(p => p?.id === w.playerId)]?.name} wins $${w.amount} (${w.handName})`).join(', ')}
+                     <div className="bg-yellow-500 text-black px-3 py-1 rounded font-bold animate-pulse shadow-lg z-50 flex flex-col items-center">
+                        {gameState.winners.map((w, i) => (
+                            <div key={i} className="whitespace-nowrap">
+                                {`${shownPlayers.find(p => p?.id === w.playerId)?.name} wins $${w.amount} (${w.handName})`}
+                                {gameState.winners.some(o => o.potIndex > 0) && <span className="ml-1 text-xs font-normal">· {getPotName(w.potIndex)}</span>}
+                                {gameState.boards.length > 0 && <span className="ml-1 text-xs font-normal">· Run {w.runIndex + 1}</span>}
+                            </div>
+                        ))}
                      </div>
                 )}
             </div>
             
             {/* Seats */}
-            {players.map((p, i) => (
+            {shownPlayers.map((p, i) => (
                 <Seat 
                     key={i} 
                     index={i} 
+                    seatCount={shownPlayers.length}
                     player={p} 
                     isActive={gameState.currentPlayerIndex === i}
-                    isDealer={gameState.dealerIndex === i}
+                    isDealer={!isStud(tableConfig) && gameState.dealerIndex === i}
+                    actionClock={gameState.actionClock?.seatIndex === i ? gameState.actionClock : null}
+                    clockOffset={clockOffset}
+                    winningCards={winningCards}
+                    equity={gameState.equity.find(e => e.seatIndex === i) ?? null}
                     onSit={handleSit} 
                     onLeave={handleLeave}
-                    // Show cards if: Showdown OR It's ME OR Offline Mode (Hotseat)
-                    showCards={gameState.phase === GamePhase.SHOWDOWN || (p?.status === PlayerStatus.PLAYING && (i === mySeatIndex || gameMode === 'offline'))}
+                    stats={p ? seenStats[p.id] ?? null : null}
+                    onShowStats={(seat) => setStatsPlayerId(shownPlayers[seat]?.id ?? null)}
+                    // Show cards if: Showdown OR It's ME OR the hand is tabled for an all-in run-out
+                    showCards={gameState.phase === GamePhase.SHOWDOWN || (i === mySeatIndex && (p?.status === PlayerStatus.PLAYING || p?.status === PlayerStatus.ALL_IN)) || gameState.equity.some(e => e.seatIndex === i)}
                 />
             ))}
         </div>
@@ -684,24 +812,47 @@ const App: React.FC = () => {
         
         {/* Left: Game State Info */}
         <div className="text-gray-400 text-sm w-1/4">
-            <div>Blinds: <span className="text-white">${SMALL_BLIND}/${BIG_BLIND}</span></div>
+            <div>
+                {isStud(tableConfig) ? 'Stakes' : 'Blinds'}: <span className="text-white">{formatStakes(tableConfig)}</span>
+                <span className="text-gray-500"> · {BETTING_STRUCTURES.find(b => b.structure === tableConfig.bettingStructure)?.label} {GAME_VARIANTS.find(v => v.variant === tableConfig.variant)?.short}</span>
+            </div>
             <div>Phase: <span className="text-yellow-500">{gameState.phase}</span></div>
             
             {gameState.phase === GamePhase.IDLE && (
                 <div className="flex flex-col space-y-2 mt-2">
+                    {!tournament && (
                     <div className="flex items-center space-x-2">
                         <label className="text-xs text-gray-500">Buy-in:</label>
                         <input 
                             type="number" 
-                            min="100"
-                            step="100"
+                            min={tableConfig.minBuyIn}
+                            max={tableConfig.maxBuyIn}
+                            step={tableConfig.bigBlind}
                             value={buyInAmount}
                             onChange={(e) => updateBuyIn(parseInt(e.target.value) || 0)}
+                            onBlur={() => updateBuyIn(clampBuyIn(tableConfig, buyInAmount))}
+                            title={`$${tableConfig.minBuyIn} - $${tableConfig.maxBuyIn}`}
                             className="w-20 bg-gray-800 border border-gray-700 text-white text-xs px-2 py-1 rounded focus:outline-none focus:border-yellow-500"
                         />
                     </div>
+                    )}
+                    {canSeatBots && (
+                        <div className="flex items-center space-x-2" title="Click an empty seat to add a bot">
+                            <label className="text-xs text-gray-500">Bots:</label>
+                            <select
+                                value={botStyle}
+                                onChange={(e) => setBotStyle(e.target.value as BotStyle)}
+                                className="bg-gray-800 border border-gray-700 text-white text-xs px-2 py-1 rounded focus:outline-none focus:border-yellow-500"
+                            >
+                                {BOT_STYLES.map(b => (
+                                    <option key={b.style} value={b.style}>{b.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     {/* Only show Start Game if Offline OR if Online and I am sitting (simplified host logic) */}
-                    {(gameMode === 'offline' || (gameMode === 'online' && mySeatIndex !== -1)) && (
+                    {/* Sit & Go tables deal by themselves */}
+                    {(gameMode === 'offline' || (gameMode === 'online' && mySeatIndex !== -1 && !tournament)) && (
                         <button 
                             onClick={startGame}
                             className="bg-green-600 hover:bg-green-500 text-white font-bold py-1 px-4 rounded shadow-lg transition-colors w-max"
@@ -722,8 +873,14 @@ const App: React.FC = () => {
         </div>
 
         {/* Right: Actions */}
-        <div className="w-1/3 flex items-center justify-end space-x-2">
+        <div className="w-1/3 flex items-center justify-end space-x-2 relative">
             
+            {actionError && (
+                <div className="absolute -top-10 right-0 bg-red-950/90 border border-red-700 text-red-200 text-xs px-3 py-1 rounded shadow-lg" title={actionError.code}>
+                    {actionError.message}
+                </div>
+            )}
+
             {/* AI Advisor Area */}
             {gameState.phase !== GamePhase.IDLE && gameState.phase !== GamePhase.SHOWDOWN && mySeatIndex !== -1 && (
                 <div className="mr-4 flex flex-col items-end">
@@ -738,23 +895,48 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {/* Run It Twice vote */}
+            {myRunoutVote === null && (
+                <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-400 uppercase font-bold">Run it</span>
+                    {Array.from({ length: MAX_RUNS }, (_, i) => i + 1).map(count => (
+                        <button
+                            key={count}
+                            onClick={() => handleVoteRuns(count)}
+                            className="bg-emerald-900/80 hover:bg-emerald-700 text-emerald-100 border border-emerald-700 font-bold py-2 px-3 rounded transition-all"
+                        >
+                            {count === 1 ? 'Once' : count === 2 ? 'Twice' : `${count}x`}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {typeof myRunoutVote === 'number' && (
+                <div className="text-xs text-gray-400 italic">Waiting for the others to agree...</div>
+            )}
+
             {gameState.currentPlayerIndex !== -1 && (
-                <div className={`flex space-x-2 transition-opacity ${canAct ? 'opacity-100' : 'opacity-30 pointer-events-none grayscale'}`}>
+                <div className={`flex items-end space-x-2 transition-opacity ${canAct ? 'opacity-100' : 'opacity-30 pointer-events-none grayscale'}`}>
                     <button onClick={() => handleAction('fold')} className="bg-red-900/80 hover:bg-red-700 text-red-200 border border-red-800 font-bold py-2 px-4 rounded transition-all">
                         Fold
                     </button>
                     <button onClick={() => handleAction(callAmount === 0 ? 'check' : 'call')} className="bg-blue-900/80 hover:bg-blue-700 text-blue-200 border border-blue-800 font-bold py-2 px-4 rounded transition-all">
                         {callAmount === 0 ? 'Check' : `Call $${callAmount}`}
                     </button>
-                    <button onClick={() => handleAction('raise', BIG_BLIND)} className="bg-yellow-700/80 hover:bg-yellow-600 text-yellow-100 border border-yellow-600 font-bold py-2 px-4 rounded transition-all">
-                        Raise ${minRaise}
-                    </button>
+                    {bettingOptions?.canRaise && (
+                        <BetControls
+                            options={bettingOptions}
+                            structure={tableConfig.bettingStructure}
+                            currentBet={gameState.currentBet}
+                            pot={getTotalPot(view)}
+                            onRaise={(raiseTo) => handleAction('raise', raiseTo - gameState.currentBet)}
+                        />
+                    )}
                 </div>
             )}
 
-            {gameState.phase === GamePhase.SHOWDOWN && (gameMode === 'offline' || mySeatIndex !== -1) && (
+            {gameState.phase === GamePhase.SHOWDOWN && (gameMode === 'offline' || (mySeatIndex !== -1 && !tournament)) && (
                  <button 
-                    onClick={() => gameMode === 'online' ? socketRef.current?.emit('startGame') : startNewHand((gameState.dealerIndex + 1) % 9)}
+                    onClick={startGame}
                     className="bg-green-600 hover:bg-green-500 text-white font-bold py-2 px-6 rounded shadow-[0_0_15px_rgba(22,163,74,0.5)] animate-pulse"
                 >
                     Next Hand
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { AccountSummary } from '../types';
+
+interface AccountBarProps {
+  account: AccountSummary | null;
+  // Both resolve to an error message, or null on success.
+  onLogin: (username: string, password: string) => Promise<string | null>;
+  onRegister: (username: string, password: string) => Promise<string | null>;
+  onLogout: () => void;
+  onShowProfile: () => void;
+}
+
+// Log in / sign up form, or the bankroll once logged in.
+const AccountBar: React.FC<AccountBarProps> = ({ account, onLogin, onRegister, onLogout, onShowProfile }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  if (account) {
+    return (
+      <div className="flex items-center justify-between bg-black/30 rounded border border-gray-700 px-3 py-2 mb-6 text-sm">
+        <div>
+          <span className="font-bold text-gray-200">{account.username}</span>
+          <span className="text-gray-500 mx-2">·</span>
+          <span className="text-gray-400">Bankroll </span>
+          <span className="text-yellow-400 font-mono">${account.balance}</span>
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          <button onClick={onShowProfile} className="text-blue-300 hover:text-blue-100 underline">Profile</button>
+          <button onClick={onLogout} className="text-gray-400 hover:text-white underline">Log out</button>
+        </div>
+      </div>
+    );
+  }
+
+  const submit = async (action: typeof onLogin) => {
+    setBusy(true);
+    setError(await action(username.trim(), password));
+    setBusy(false);
+  };
+
+  return (
+    <div className="bg-black/30 rounded border border-gray-700 p-3 mb-6">
+      <div className="text-xs font-bold text-gray-400 uppercase mb-2">Log in to play for your bankroll</div>
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={username}
+          placeholder="Username"
+          onChange={(e) => setUsername(e.target.value)}
+          maxLength={16}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:border-yellow-500 focus:outline-none"
+        />
+        <input
+          type="password"
+          value={password}
+          placeholder="Password"
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(onLogin); }}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:border-yellow-500 focus:outline-none"
+        />
+        <button
+          onClick={() => submit(onLogin)}
+          disabled={busy}
+          className="bg-blue-700 hover:bg-blue-600 text-white font-bold py-2 px-3 rounded text-sm disabled:opacity-50"
+        >
+          Log in
+        </button>
+        <button
+          onClick={() => submit(onRegister)}
+          disabled={busy}
+          className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded text-sm disabled:opacity-50"
+        >
+          Sign up
+        </button>
+      </div>
+      {error && <div className="text-red-400 text-xs mt-2">{error}</div>}
+    </div>
+  );
+};
+
+export default AccountBar;
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { BettingOptions } from '../engine/engine';
+import { BettingStructure } from '../types';
+
+interface BetControlsProps {
+  options: BettingOptions;
+  structure: BettingStructure;
+  currentBet: number;
+  pot: number; // Everything in the middle, including bets on the table
+  onRaise: (raiseTo: number) => void;
+}
+
+const PRESETS = [
+  { label: '½ Pot', fraction: 0.5 },
+  { label: 'Pot', fraction: 1 },
+];
+
+const BetControls: React.FC<BetControlsProps> = ({ options, structure, currentBet, pot, onRaise }) => {
+  const { minRaiseTo, maxRaiseTo, callAmount, allInTo } = options;
+  const [raiseTo, setRaiseTo] = useState(minRaiseTo);
+
+  // Reset the size whenever a new decision comes around
+  useEffect(() => {
+    setRaiseTo(minRaiseTo);
+  }, [minRaiseTo, maxRaiseTo]);
+
+  const clamp = (value: number) => Math.min(maxRaiseTo, Math.max(minRaiseTo, Math.round(value)));
+  // A pot-sized raise is the call plus the pot as it stands after calling
+  const potSized = (fraction: number) => clamp(currentBet + (pot + callAmount) * fraction);
+
+  const sizeLabel = (amount: number) =>
+    amount >= allInTo ? `All-In $${amount}`
+      : structure === 'POT_LIMIT' && amount === maxRaiseTo ? `Pot $${amount}`
+      : currentBet === 0 ? `Bet $${amount}` : `Raise to $${amount}`;
+
+  // Fixed-limit has a single legal size, so there is nothing to choose.
+  if (structure === 'FIXED_LIMIT') {
+    return (
+      <button
+        onClick={() => onRaise(maxRaiseTo)}
+        className="bg-yellow-700/80 hover:bg-yellow-600 text-yellow-100 border border-yellow-600 font-bold py-2 px-4 rounded transition-all"
+      >
+        {sizeLabel(maxRaiseTo)}
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-stretch space-y-1">
+      <div className="flex items-center space-x-1">
+        {PRESETS.map(({ label: presetLabel, fraction }) => (
+          <button
+            key={presetLabel}
+            onClick={() => setRaiseTo(potSized(fraction))}
+            className="bg-gray-800 hover:bg-gray-700 text-gray-300 text-[10px] font-bold py-0.5 px-2 rounded border border-gray-700"
+          >
+            {presetLabel}
+          </button>
+        ))}
+        {/* Pot-limit tops out at the pot, which the Pot button already covers */}
+        {structure === 'NO_LIMIT' && (
+          <button
+            onClick={() => setRaiseTo(maxRaiseTo)}
+            className="bg-gray-800 hover:bg-gray-700 text-red-300 text-[10px] font-bold py-0.5 px-2 rounded border border-gray-700"
+          >
+            All-In
+          </button>
+        )}
+        <input
+          type="number"
+          min={minRaiseTo}
+          max={maxRaiseTo}
+          value={raiseTo}
+          onChange={(e) => setRaiseTo(parseInt(e.target.value) || 0)}
+          onBlur={() => setRaiseTo(clamp(raiseTo))}
+          className="w-16 bg-gray-800 border border-gray-700 text-white text-xs px-1 py-0.5 rounded focus:outline-none focus:border-yellow-500"
+        />
+      </div>
+      <input
+        type="range"
+        min={minRaiseTo}
+        max={maxRaiseTo}
+        value={raiseTo}
+        onChange={(e) => setRaiseTo(parseInt(e.target.value))}
+        className="accent-yellow-500"
+      />
+      <button
+        onClick={() => onRaise(clamp(raiseTo))}
+        className="bg-yellow-700/80 hover:bg-yellow-600 text-yellow-100 border border-yellow-600 font-bold py-1 px-4 rounded transition-all"
+      >
+        {sizeLabel(raiseTo)}
+      </button>
+    </div>
+  );
+};
+
+export default BetControls;
@@ -6,9 +6,10 @@ interface CardProps {
   hidden?: boolean;
   className?: string;
   size?: 'sm' | 'md' | 'lg';
+  highlighted?: boolean; // Part of a winning hand at showdown
 }
 
-const Card: React.FC<CardProps> = ({ card, hidden = false, className = '', size = 'md' }) => {
+const Card: React.FC<CardProps> = ({ card, hidden = false, className = '', size = 'md', highlighted = false }) => {
   const isRed = card && (card.suit === Suit.HEARTS || card.suit === Suit.DIAMONDS);
   
   const sizeClasses = {
@@ -28,7 +29,7 @@ const Card: React.FC<CardProps> = ({ card, hidden = false, className = '', size
   }
 
   return (
-    <div className={`${baseClasses} bg-white ${isRed ? 'text-red-600' : 'text-black'}`}>
+    <div className={`${baseClasses} bg-white ${isRed ? 'text-red-600' : 'text-black'} ${highlighted ? 'ring-2 ring-yellow-400 -translate-y-1 shadow-[0_0_12px_rgba(250,204,21,0.8)]' : ''}`}>
       <span className="absolute top-0.5 left-1 leading-none">{card.rank}</span>
       <span className="text-xl leading-none">{card.suit}</span>
       <span className="absolute bottom-0.5 right-1 leading-none rotate-180">{card.rank}</span>
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { ActionClock } from '../types';
+
+interface CountdownRingProps {
+  clock: ActionClock;
+  clockOffset: number; // Server time minus local time, in ms
+}
+
+const SIZE = 80;
+const STROKE = 4;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+const CountdownRing: React.FC<CountdownRingProps> = ({ clock, clockOffset }) => {
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() + clockOffset), 200);
+    return () => clearInterval(timer);
+  }, [clockOffset]);
+
+  const total = clock.deadline - clock.startedAt;
+  const remaining = Math.max(0, clock.deadline - now);
+  const fraction = total > 0 ? remaining / total : 0;
+  const color = clock.usingTimeBank ? '#ef4444' : fraction < 0.25 ? '#f97316' : '#facc15';
+
+  return (
+    <>
+      <svg
+        width={SIZE}
+        height={SIZE}
+        className="absolute pointer-events-none -rotate-90"
+        style={{ top: '50%', left: '50%', marginTop: -SIZE / 2, marginLeft: -SIZE / 2 }}
+      >
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={RADIUS} fill="none" stroke="rgba(0,0,0,0.4)" strokeWidth={STROKE} />
+        <circle
+          cx={SIZE / 2}
+          cy={SIZE / 2}
+          r={RADIUS}
+          fill="none"
+          stroke={color}
+          strokeWidth={STROKE}
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          style={{ transition: 'stroke-dashoffset 0.2s linear' }}
+        />
+      </svg>
+      <div
+        className="absolute -top-3 -left-3 bg-black/80 rounded px-1 text-[10px] font-mono font-bold"
+        style={{ color }}
+        title={clock.usingTimeBank ? 'Time bank' : 'Action clock'}
+      >
+        {Math.ceil(remaining / 1000)}s
+      </div>
+    </>
+  );
+};
+
+export default CountdownRing;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Card, FairnessInfo, FairnessProof, GameVariant, Suit } from '../types';
+import { GAME_VARIANTS } from '../engine/config';
+import { verifyShuffle } from '../utils/fairShuffle';
+
+interface FairnessPanelProps {
+  info: FairnessInfo | null;
+  clientSeed: string;
+  onClientSeedChange: (seed: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_PROOF: FairnessProof = { serverSeed: '', serverSeedHash: '', clientSeed: '', nonce: 1, variant: 'HOLDEM' };
+
+const isRed = (c: Card) => c.suit === Suit.HEARTS || c.suit === Suit.DIAMONDS;
+
+const Hash: React.FC<{ value: string }> = ({ value }) => (
+  <div className="font-mono text-[10px] text-gray-300 break-all bg-black/40 rounded px-2 py-1">{value}</div>
+);
+
+const FairnessPanel: React.FC<FairnessPanelProps> = ({ info, clientSeed, onClientSeedChange, onClose }) => {
+  const [seedDraft, setSeedDraft] = useState(clientSeed);
+  const [draft, setDraft] = useState<FairnessProof | null>(null);
+  const [result, setResult] = useState<{ hashMatches: boolean; deck: Card[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the table's latest revealed hand until the form is used.
+  const proof = draft ?? info?.revealed ?? EMPTY_PROOF;
+  const editProof = (next: FairnessProof) => {
+    setResult(null);
+    setDraft(next);
+  };
+
+  const verify = async () => {
+    setError(null);
+    setDraft(proof);
+    try {
+      setResult(await verifyShuffle(proof));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Could not verify these seeds.');
+    }
+  };
+
+  const field = (key: 'serverSeed' | 'serverSeedHash' | 'clientSeed' | 'nonce', label: string) => (
+    <label className="block mb-2">
+      <span className="text-[10px] text-gray-400 uppercase font-bold">{label}</span>
+      <input
+        type={key === 'nonce' ? 'number' : 'text'}
+        value={proof[key]}
+        onChange={(e) => editProof({ ...proof, [key]: key === 'nonce' ? parseInt(e.target.value) || 0 : e.target.value.trim() })}
+        className="w-full bg-gray-900 border border-gray-600 rounded p-1.5 text-white text-xs font-mono focus:border-yellow-500 focus:outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="absolute inset-0 z-[55] flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div className="w-[36rem] max-h-[90%] overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-yellow-500 font-bold">Provably Fair Shuffle</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">✕</button>
+        </div>
+        <p className="text-xs text-gray-400 mb-4">
+          Before every hand the server publishes the SHA-256 hash of its secret seed. The deck is shuffled with that seed
+          and the seeds of everyone dealt in, and the server seed is revealed when the hand ends, so any deck can be rebuilt below.
+        </p>
+
+        {info && (
+          <div className="space-y-2 mb-4 text-xs">
+            <div>
+              <div className="text-gray-400 mb-0.5">Next hand's server seed hash</div>
+              <Hash value={info.nextServerSeedHash} />
+            </div>
+            {info.current && (
+              <div>
+                <div className="text-gray-400 mb-0.5">Hand #{info.current.nonce} in play, committed to</div>
+                <Hash value={info.current.serverSeedHash} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-end space-x-2 mb-4">
+          <label className="flex-1">
+            <span className="text-[10px] text-gray-400 uppercase font-bold">Your client seed (used from the next hand)</span>
+            <input
+              type="text"
+              value={seedDraft}
+              maxLength={64}
+              onChange={(e) => setSeedDraft(e.target.value.replace(/[^A-Za-z0-9_-]/g, ''))}
+              className="w-full bg-gray-900 border border-gray-600 rounded p-1.5 text-white text-xs font-mono focus:border-yellow-500 focus:outline-none"
+            />
+          </label>
+          <button
+            onClick={() => onClientSeedChange(seedDraft)}
+            disabled={!seedDraft || seedDraft === clientSeed}
+            className="bg-blue-700 hover:bg-blue-600 text-white text-xs font-bold py-2 px-3 rounded disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+
+        <div className="border-t border-gray-700 pt-3">
+          <div className="text-xs font-bold text-gray-300 uppercase mb-2">Verify a hand</div>
+          {field('serverSeed', 'Server seed (revealed)')}
+          {field('serverSeedHash', 'Server seed hash (published before the hand)')}
+          {field('clientSeed', 'Client seeds')}
+          {field('nonce', 'Hand number')}
+          <label className="block mb-2">
+            <span className="text-[10px] text-gray-400 uppercase font-bold">Game (decides the deck)</span>
+            <select
+              value={proof.variant ?? 'HOLDEM'}
+              onChange={(e) => editProof({ ...proof, variant: e.target.value as GameVariant })}
+              className="w-full bg-gray-900 border border-gray-600 rounded p-1.5 text-white text-xs focus:border-yellow-500 focus:outline-none"
+            >
+              {GAME_VARIANTS.map(v => (
+                <option key={v.variant} value={v.variant}>{v.label}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={verify}
+            disabled={!proof.serverSeed}
+            className="bg-yellow-600 hover:bg-yellow-500 text-white text-xs font-bold py-2 px-4 rounded disabled:opacity-40"
+          >
+            Rebuild Deck
+          </button>
+
+          {error && <div className="text-red-400 text-xs mt-2">{error}</div>}
+          {result && (
+            <div className="mt-3">
+              <div className={`text-xs font-bold mb-2 ${result.hashMatches ? 'text-green-400' : 'text-red-400'}`}>
+                {result.hashMatches ? '✓ The seed matches the published hash.' : '✗ The seed does NOT match the published hash.'}
+              </div>
+              <div className="text-[10px] text-gray-400 mb-1">Deal order (each player's hole cards in seat order, then the board; in stud, each later street one card per player still in):</div>
+              <div className="flex flex-wrap gap-1">
+                {[...result.deck].reverse().map((c, i) => (
+                  <span key={i} className={`bg-white rounded px-1 text-xs font-bold font-mono ${isRed(c) ? 'text-red-600' : 'text-gray-900'}`}>
+                    {c.rank}{c.suit}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FairnessPanel;
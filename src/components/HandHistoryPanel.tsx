@@ -0,0 +1,54 @@
+import React from 'react';
+import { HandHistorySummary } from '../types';
+
+interface HandHistoryPanelProps {
+  hands: HandHistorySummary[]; // Newest first
+  onDownload: (handId: string | null) => void; // null = the whole session
+  onReplay: (handId: string) => void;
+  onClose: () => void;
+}
+
+const HandHistoryPanel: React.FC<HandHistoryPanelProps> = ({ hands, onDownload, onReplay, onClose }) => {
+  return (
+    <div className="absolute top-20 left-4 w-80 max-h-[60%] bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl z-50 flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-gray-700">
+        <h3 className="text-yellow-500 font-bold text-sm uppercase">Hand History</h3>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => onDownload(null)}
+            disabled={hands.length === 0}
+            className="text-xs text-blue-300 hover:text-blue-100 underline disabled:opacity-40"
+            title="PokerStars format, for tracking software"
+          >
+            Download session
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">✕</button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto">
+        {hands.length === 0 && <div className="p-4 text-center text-gray-500 text-xs">No hands played yet.</div>}
+        {hands.map(h => (
+          <div key={h.handId} className="flex items-center justify-between px-3 py-2 border-b border-gray-800 hover:bg-white/5 text-xs">
+            <div>
+              <div className="text-gray-200 font-mono">#{h.handId}</div>
+              <div className="text-gray-500">
+                {new Date(h.startedAt).toLocaleTimeString()} · {h.tableName} · <span className="text-yellow-400">${h.pot}</span> to {h.winners.join(', ')}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-2">
+              <button onClick={() => onReplay(h.handId)} className="text-yellow-400 hover:text-yellow-200 underline">
+                Replay
+              </button>
+              <button onClick={() => onDownload(h.handId)} className="text-blue-300 hover:text-blue-100 underline">
+                .txt
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HandHistoryPanel;
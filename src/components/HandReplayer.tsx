@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HandHistory } from '../types';
+import { buildReplayFrames } from '../engine/replay';
+import { isSameCard } from '../utils/poker';
+import Card from './Card';
+import Chips from './Chips';
+import Seat from './Seat';
+
+interface HandReplayerProps {
+  history: HandHistory;
+  viewerId: string | null; // Whose hole cards are visible from the start
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const FRAME_MS = 1200; // At 1x
+
+const HandReplayer: React.FC<HandReplayerProps> = ({ history, viewerId, onClose }) => {
+  const frames = useMemo(() => buildReplayFrames(history, viewerId), [history, viewerId]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const atEnd = index === frames.length - 1;
+  const frame = frames[index];
+  const winningCards = frame.winners.flatMap(w => w.cards);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (atEnd) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex(i => i + 1), FRAME_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, atEnd, index, speed]);
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    setIndex(i => Math.min(frames.length - 1, Math.max(0, i + delta)));
+  };
+
+  const togglePlay = () => {
+    if (atEnd) setIndex(0); // Replay from the start
+    setPlaying(p => !p || atEnd);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-gray-900/95 flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-3 border-b border-gray-800">
+        <div>
+          <h2 className="text-yellow-500 font-bold tracking-wider">REPLAY · Hand #{history.handId}</h2>
+          <div className="text-xs text-gray-400">
+            {history.tableName} · ${history.config.smallBlind}/${history.config.bigBlind} · {new Date(history.startedAt).toLocaleString()}
+          </div>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+      </div>
+
+      {/* The Felt */}
+      <div className="flex-1 relative flex items-center justify-center">
+        <div className="relative w-[90%] max-w-[1000px] aspect-[1.8/1] bg-felt rounded-[300px] border-[16px] border-[#3a2a1a] shadow-[0_0_50px_rgba(0,0,0,0.8),inset_0_0_100px_rgba(0,0,0,0.6)] flex items-center justify-center">
+          <div className="flex flex-col items-center space-y-1 z-10 mb-8">
+            {frame.boards.map((board, run) => (
+              <div key={run} className="flex items-center space-x-2">
+                {frame.boards.length > 1 && <span className="text-[10px] text-white/60 font-bold uppercase w-10">Run {run + 1}</span>}
+                {board.map((c, i) => (
+                  <Card
+                    key={i}
+                    card={c}
+                    size={frame.boards.length > 1 ? 'sm' : 'md'}
+                    className="shadow-2xl"
+                    highlighted={frame.winners.some(w => w.runIndex === run && w.cards.some(wc => isSameCard(wc, c)))}
+                  />
+                ))}
+                {Array(5 - board.length).fill(0).map((_, i) => (
+                  <div key={`placeholder-${i}`} className={`${frame.boards.length > 1 ? 'w-8 h-12' : 'w-12 h-16'} border-2 border-white/10 rounded-md`} />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="absolute top-[60%] left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center">
+            <div className="text-white/50 text-xs font-bold uppercase tracking-widest mb-1">Pot</div>
+            {frame.pot > 0 ? <Chips amount={frame.pot} /> : <div className="h-6" />}
+          </div>
+
+          {frame.players.map((p, i) => (
+            <Seat
+              key={i}
+              index={i}
+              seatCount={frame.players.length}
+              player={p}
+              isActive={frame.currentSeat === i}
+              isDealer={!!p?.isDealer}
+              onSit={() => {}}
+              onLeave={() => {}}
+              showCards={!!p && p.cards.every(c => c !== null)}
+              winningCards={winningCards}
+              readOnly
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="h-24 bg-gray-950 border-t border-gray-800 flex items-center justify-between px-6">
+        <div className="w-1/3 text-sm text-gray-200 truncate" title={frame.description}>{frame.description}</div>
+
+        <div className="flex items-center space-x-2">
+          <button onClick={() => step(-1)} disabled={index === 0} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-40">⏮</button>
+          <button onClick={togglePlay} className="px-4 py-2 bg-yellow-600 hover:bg-yellow-500 rounded text-white font-bold w-20">
+            {playing ? '⏸' : '▶'}
+          </button>
+          <button onClick={() => step(1)} disabled={atEnd} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-40">⏭</button>
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            value={index}
+            onChange={(e) => { setPlaying(false); setIndex(Number(e.target.value)); }}
+            className="w-40 ml-2"
+          />
+          <span className="text-xs text-gray-500 font-mono w-12">{index + 1}/{frames.length}</span>
+        </div>
+
+        <div className="w-1/3 flex justify-end items-center space-x-1">
+          <span className="text-xs text-gray-500 mr-1">Speed</span>
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={`px-2 py-1 rounded text-xs font-mono ${speed === s ? 'bg-yellow-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandReplayer;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { AccountProfile, BankrollTransactionKind } from '../types';
+
+interface ProfilePanelProps {
+  profile: AccountProfile;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<BankrollTransactionKind, string> = {
+  signup: 'Welcome bonus',
+  buyIn: 'Buy-in',
+  cashOut: 'Cash-out',
+  tournamentEntry: 'Tournament entry',
+  tournamentRefund: 'Tournament refund',
+  tournamentPrize: 'Tournament prize',
+};
+
+const ProfilePanel: React.FC<ProfilePanelProps> = ({ profile, onClose }) => {
+  return (
+    <div className="absolute inset-0 z-[55] flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div className="w-[28rem] max-h-[80%] bg-gray-900 border border-gray-700 rounded-lg shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <div>
+            <h3 className="text-yellow-500 font-bold">{profile.username}</h3>
+            <div className="text-xs text-gray-500">Member since {new Date(profile.createdAt).toLocaleDateString()}</div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs text-gray-400 uppercase">Bankroll</div>
+            <div className="text-xl text-yellow-400 font-mono">${profile.balance}</div>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-400 uppercase">
+              <tr className="border-b border-gray-700">
+                <th className="text-left p-2">When</th>
+                <th className="text-left p-2">What</th>
+                <th className="text-right p-2">Amount</th>
+                <th className="text-right p-2">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.transactions.map(t => (
+                <tr key={t.id} className="border-b border-gray-800">
+                  <td className="p-2 text-gray-500">{new Date(t.createdAt).toLocaleString()}</td>
+                  <td className="p-2 text-gray-200">
+                    {KIND_LABELS[t.kind]}
+                    {t.note && <span className="text-gray-500"> · {t.note}</span>}
+                  </td>
+                  <td className={`p-2 text-right font-mono ${t.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {t.amount >= 0 ? '+' : '-'}${Math.abs(t.amount)}
+                  </td>
+                  <td className="p-2 text-right font-mono text-gray-300">${t.balance}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-3 border-t border-gray-700 text-right">
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
@@ -1,22 +1,34 @@
 import React from 'react';
-import { Player, PlayerStatus, SEAT_POSITIONS } from '../types';
+import { ActionClock, Card as CardType, HandEquity, PlayerStats, PlayerStatus, PublicPlayer, getSeatPosition } from '../types';
+import { summarizeStats } from '../engine/stats';
+import { isSameCard } from '../utils/poker';
 import Card from './Card';
 import Chips from './Chips';
+import CountdownRing from './CountdownRing';
 
 interface SeatProps {
   index: number;
-  player: Player | null;
+  seatCount: number;
+  player: PublicPlayer | null;
   isActive: boolean;
   isDealer: boolean;
   onSit: (index: number) => void;
   onLeave: (index: number) => void;
   showCards: boolean; // For showdown or user's own cards
+  actionClock?: ActionClock | null; // Only passed to the seat whose turn it is
+  clockOffset?: number;
+  winningCards?: CardType[]; // Highlighted at showdown
+  equity?: HandEquity | null; // Shown while an all-in hand runs out
+  readOnly?: boolean; // Replays: no sitting or standing
+  stats?: PlayerStats | null; // HUD line under the stack
+  onShowStats?: (index: number) => void;
 }
 
-const Seat: React.FC<SeatProps> = ({ index, player, isActive, isDealer, onSit, onLeave, showCards }) => {
-  const position = SEAT_POSITIONS[index];
+const Seat: React.FC<SeatProps> = ({ index, seatCount, player, isActive, isDealer, onSit, onLeave, showCards, actionClock, clockOffset = 0, winningCards = [], equity = null, readOnly = false, stats = null, onShowStats }) => {
+  const position = getSeatPosition(index, seatCount);
   
   if (!player || player.status === PlayerStatus.EMPTY) {
+    if (readOnly) return null;
     return (
       <div 
         className="absolute w-24 h-24 flex flex-col items-center justify-center cursor-pointer opacity-50 hover:opacity-100 transition-opacity group"
@@ -34,6 +46,8 @@ const Seat: React.FC<SeatProps> = ({ index, player, isActive, isDealer, onSit, o
   const isFolded = player.status === PlayerStatus.FOLDED;
   const isAllIn = player.status === PlayerStatus.ALL_IN;
   const isBusted = player.status === PlayerStatus.BUSTED;
+  const isWinning = (card: CardType | null) => !!card && winningCards.some(w => isSameCard(w, card));
+  const hud = stats && stats.hands > 0 ? summarizeStats(stats) : null;
 
   return (
     <div 
@@ -42,24 +56,25 @@ const Seat: React.FC<SeatProps> = ({ index, player, isActive, isDealer, onSit, o
     >
       {/* Cards */}
       <div className="flex space-x-1 mb-1 relative h-14">
-        {player.cards.length > 0 && !isBusted && (
-            <>
-                <div className={`transform transition-transform ${isFolded ? 'translate-y-2' : ''}`}>
-                    <Card card={player.cards[0]} hidden={!showCards} size="sm" />
-                </div>
-                <div className={`transform transition-transform ${isFolded ? 'translate-y-2' : ''} -ml-4`}>
-                    <Card card={player.cards[1]} hidden={!showCards} size="sm" />
-                </div>
-            </>
-        )}
+        {/* Two cards fan out; Omaha's four and stud's seven overlap more to keep the seat narrow.
+            Stud up cards are shown to everyone, and known down cards sit a little higher. */}
+        {!isBusted && player.cards.map((card, i) => (
+            <div key={i} className={`transform transition-transform ${isFolded ? 'translate-y-2' : showCards && card?.faceUp === false ? '-translate-y-2' : ''} ${i === 0 ? '' : player.cards.length > 4 ? '-ml-6' : player.cards.length > 2 ? '-ml-5' : '-ml-4'}`}>
+                <Card card={card ?? undefined} hidden={!card || (!showCards && !card.faceUp)} size="sm" highlighted={!!card && (showCards || !!card.faceUp) && isWinning(card)} />
+            </div>
+        ))}
       </div>
 
       {/* Avatar Circle */}
-      <div className={`relative w-16 h-16 rounded-full border-4 flex items-center justify-center bg-gray-800 shadow-xl
+      <div
+        onClick={onShowStats ? () => onShowStats(index) : undefined}
+        className={`relative w-16 h-16 rounded-full border-4 flex items-center justify-center bg-gray-800 shadow-xl
+        ${onShowStats ? 'cursor-pointer' : ''}
         ${isActive ? 'border-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.6)]' : 'border-gray-600'}
         ${isAllIn ? 'border-red-500' : ''}
       `}>
          <div className="text-xl font-bold">{player.name.charAt(0)}</div>
+         {actionClock && <CountdownRing clock={actionClock} clockOffset={clockOffset} />}
          
          {/* Dealer Button */}
          {isDealer && (
@@ -68,9 +83,20 @@ const Seat: React.FC<SeatProps> = ({ index, player, isActive, isDealer, onSit, o
              </div>
          )}
          
+         {player.botStyle && (
+             <div className="absolute -top-2 -left-2 bg-gray-700 text-gray-200 text-[8px] px-1 rounded font-bold border border-gray-500" title={player.botStyle}>
+                 BOT
+             </div>
+         )}
+
          {/* Status Badge */}
          {isAllIn && <div className="absolute -bottom-3 bg-red-600 text-[10px] px-1.5 py-0.5 rounded text-white font-bold">ALL IN</div>}
          {isBusted && <div className="absolute inset-0 bg-black/80 rounded-full flex items-center justify-center text-[10px] text-red-500 font-bold uppercase rotate-12">Bust</div>}
+         {!isBusted && (player.isDisconnected || player.isSittingOut) && (
+             <div className="absolute inset-0 bg-black/70 rounded-full flex items-center justify-center text-[9px] text-gray-300 font-bold uppercase text-center leading-tight">
+                 {player.isSittingOut ? 'Sitting Out' : 'Away'}
+             </div>
+         )}
       </div>
 
       {/* Name & Stack */}
@@ -79,6 +105,21 @@ const Seat: React.FC<SeatProps> = ({ index, player, isActive, isDealer, onSit, o
         <div className="text-xs text-yellow-400 font-mono">${player.chips}</div>
       </div>
 
+      {/* HUD: VPIP / PFR / AF over the hands seen */}
+      {hud && stats && (
+          <div className="mt-0.5 bg-black/60 text-gray-300 text-[9px] font-mono px-1.5 rounded" title="VPIP / PFR / Aggression · hands">
+              {hud.vpip}/{hud.pfr}/{hud.aggression} · {stats.hands}
+          </div>
+      )}
+
+      {/* All-In Equity */}
+      {equity && (
+          <div className="mt-1 bg-emerald-900/90 border border-emerald-500 text-emerald-100 text-[10px] font-mono font-bold px-2 py-0.5 rounded" title="Win / tie chance over the remaining cards">
+              {(equity.win * 100).toFixed(1)}%
+              {equity.tie > 0 && <span className="font-normal text-emerald-300"> · tie {(equity.tie * 100).toFixed(1)}%</span>}
+          </div>
+      )}
+
       {/* Current Round Bet */}
       {player.bet > 0 && (
           <div className="absolute top-[-30px] animate-bounce">
@@ -87,7 +128,7 @@ const Seat: React.FC<SeatProps> = ({ index, player, isActive, isDealer, onSit, o
       )}
 
       {/* Leave Button (Hover only for simplicity, usually needs a menu) */}
-      {!isActive && player.status !== PlayerStatus.PLAYING && (
+      {!readOnly && !isActive && player.status !== PlayerStatus.PLAYING && (
           <button 
             onClick={(e) => { e.stopPropagation(); onLeave(index); }}
             className="absolute -right-8 top-0 text-red-500 hover:text-red-300 text-xs bg-black/50 rounded-full w-5 h-5 flex items-center justify-center"
@@ -0,0 +1,50 @@
+import React from 'react';
+import { PlayerStats } from '../types';
+import { summarizeStats } from '../engine/stats';
+
+interface StatsPanelProps {
+  stats: PlayerStats;
+  onClose: () => void;
+}
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ stats, onClose }) => {
+  const s = summarizeStats(stats);
+  const rows: { label: string; value: string; hint: string }[] = [
+    { label: 'Hands', value: String(stats.hands), hint: 'Hands dealt in' },
+    { label: 'VPIP', value: `${s.vpip}%`, hint: 'Voluntarily put money in preflop' },
+    { label: 'PFR', value: `${s.pfr}%`, hint: 'Raised preflop' },
+    { label: '3-Bet', value: `${s.threeBet}%`, hint: `Re-raised a single preflop raise (${stats.threeBets}/${stats.threeBetChances})` },
+    { label: 'AF', value: String(s.aggression), hint: 'Postflop bets and raises per call' },
+    { label: 'WTSD', value: `${s.wentToShowdown}%`, hint: 'Went to showdown after seeing the flop' },
+    { label: 'W$SD', value: `${s.wonAtShowdown}%`, hint: 'Won money at showdown' },
+  ];
+
+  return (
+    <div className="absolute inset-0 z-[55] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-yellow-500 font-bold truncate">{stats.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">✕</button>
+        </div>
+        <table className="w-full text-sm">
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.label} className="border-b border-gray-800" title={r.hint}>
+                <td className="py-1 text-gray-400">{r.label}</td>
+                <td className="py-1 text-right font-mono text-white">{r.value}</td>
+              </tr>
+            ))}
+            <tr title="Chips won minus chips put in">
+              <td className="py-1 text-gray-400">Net</td>
+              <td className={`py-1 text-right font-mono ${stats.net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {stats.net >= 0 ? '+' : '-'}${Math.abs(stats.net)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
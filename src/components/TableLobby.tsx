@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { BettingStructure, GameVariant, MultiTableTournamentSummary, TableConfig, TableSummary, TournamentConfig } from '../types';
+import { BETTING_STRUCTURES, GAME_VARIANTS, STAKES_PRESETS, formatBlinds, formatGame, formatStakes, isStud } from '../engine/config';
+import { DEFAULT_TOURNAMENT_CONFIG, PAYOUT_PRESETS, getBlindLevel } from '../engine/tournament';
+
+interface TableLobbyProps {
+  tables: TableSummary[];
+  isConnected: boolean;
+  onJoin: (tableId: string) => void;
+  onCreate: (name: string, config: TableConfig) => void;
+  onCreateTournament: (name: string, seatCount: number, tournament: Partial<TournamentConfig>) => void;
+  tournaments: MultiTableTournamentSummary[];
+  myPlayerId: string | null;
+  onCreateMtt: (name: string, config: Partial<TournamentConfig> & { seatCount: number; maxEntrants: number }) => void;
+  // Both resolve to an error message, or null on success.
+  onRegisterMtt: (tournamentId: string) => Promise<string | null>;
+  onUnregisterMtt: (tournamentId: string) => Promise<string | null>;
+  onOpenMtt: (tournamentId: string) => void;
+  onRefresh: () => void;
+  onBack: () => void;
+  accountBar: React.ReactNode; // Login form or bankroll, above the table list
+}
+
+const SEAT_COUNT_OPTIONS = [2, 6, 9];
+const MTT_SEAT_COUNT_OPTIONS = [6, 9];
+const STUD_SEAT_COUNT_OPTIONS = [2, 6, 8];
+
+const seatOptionsFor = (kind: 'cash' | 'sng' | 'mtt', variant: GameVariant) =>
+  kind === 'mtt' ? MTT_SEAT_COUNT_OPTIONS
+  : kind === 'cash' && isStud({ variant }) ? STUD_SEAT_COUNT_OPTIONS
+  : SEAT_COUNT_OPTIONS;
+const MAX_ENTRANT_OPTIONS = [18, 27, 45, 90];
+const SNG_BUY_IN_OPTIONS = [10, 50, 100, 500, 1000];
+const LEVEL_MINUTE_OPTIONS = [1, 3, 5, 10];
+
+const TOURNAMENT_STATUS_LABELS: Record<NonNullable<TableSummary['tournament']>['status'], string> = {
+  REGISTERING: 'Registering',
+  RUNNING: 'Running',
+  FINISHED: 'Finished',
+};
+
+const TableLobby: React.FC<TableLobbyProps> = ({
+  tables, isConnected, onJoin, onCreate, onCreateTournament, tournaments, myPlayerId,
+  onCreateMtt, onRegisterMtt, onUnregisterMtt, onOpenMtt, onRefresh, onBack, accountBar,
+}) => {
+  const [name, setName] = useState('');
+  const [stakesIdx, setStakesIdx] = useState(1);
+  const [variant, setVariant] = useState<GameVariant>('HOLDEM');
+  const [structure, setStructure] = useState<BettingStructure>('NO_LIMIT');
+  const [seatCount, setSeatCount] = useState(9);
+  const [kind, setKind] = useState<'cash' | 'sng' | 'mtt'>('cash');
+  const [maxEntrants, setMaxEntrants] = useState(MAX_ENTRANT_OPTIONS[0]);
+  const [mttError, setMttError] = useState<string | null>(null);
+  const [sngBuyIn, setSngBuyIn] = useState(DEFAULT_TOURNAMENT_CONFIG.buyIn);
+  const [levelMinutes, setLevelMinutes] = useState(DEFAULT_TOURNAMENT_CONFIG.levelDurationSec / 60);
+  const [payoutIdx, setPayoutIdx] = useState(1);
+
+  // A preset can't pay more places than there are seats.
+  const payoutOptions = PAYOUT_PRESETS.filter(p => p.payouts.length <= seatCount);
+  const payouts = (PAYOUT_PRESETS[payoutIdx].payouts.length <= seatCount ? PAYOUT_PRESETS[payoutIdx] : PAYOUT_PRESETS[0]).payouts;
+
+  const seatOptions = seatOptionsFor(kind, variant);
+  // Switching game or kind keeps the seat count if it is still offered.
+  const fitSeats = (options: number[]) => {
+    if (!options.includes(seatCount)) setSeatCount(options[options.length - 1]);
+  };
+
+  const create = () => {
+    if (kind === 'sng') {
+      onCreateTournament(name, seatCount, { buyIn: sngBuyIn, levelDurationSec: levelMinutes * 60, payouts });
+    } else if (kind === 'mtt') {
+      onCreateMtt(name, { buyIn: sngBuyIn, levelDurationSec: levelMinutes * 60, seatCount, maxEntrants });
+    } else {
+      onCreate(name, { ...STAKES_PRESETS[stakesIdx].config, variant, bettingStructure: structure, seatCount });
+    }
+  };
+
+  // Each game starts from its usual structure, e.g. Omaha from pot-limit;
+  // stud games are always fixed-limit.
+  const changeVariant = (next: GameVariant) => {
+    setVariant(next);
+    setStructure(GAME_VARIANTS.find(v => v.variant === next)!.structure);
+    fitSeats(seatOptionsFor(kind, next));
+  };
+
+  const changeKind = (next: typeof kind) => {
+    setKind(next);
+    fitSeats(seatOptionsFor(next, variant));
+  };
+
+  const toggleRegistration = async (t: MultiTableTournamentSummary) => {
+    const registered = myPlayerId !== null && t.registeredIds.includes(myPlayerId);
+    setMttError(await (registered ? onUnregisterMtt : onRegisterMtt)(t.id));
+  };
+
+  return (
+    <div className="w-full h-full bg-gray-900 flex items-center justify-center relative overflow-hidden">
+      <div className="z-10 bg-gray-800 p-8 rounded-2xl border-4 border-blue-700 shadow-2xl max-w-2xl w-full">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-yellow-500">ONLINE LOBBY</h1>
+          <div className="flex items-center space-x-3">
+            <span className={`text-xs font-bold ${isConnected ? 'text-green-500' : 'text-red-500'}`}>
+              {isConnected ? '● Connected' : '○ Disconnected (Start Server)'}
+            </span>
+            <button onClick={onRefresh} className="text-xs text-blue-300 hover:text-blue-100 underline">Refresh</button>
+            <button onClick={onBack} className="text-xs text-gray-400 hover:text-white underline">Back</button>
+          </div>
+        </div>
+
+        {accountBar}
+
+        {/* Table List */}
+        <div className="bg-black/30 rounded border border-gray-700 max-h-64 overflow-y-auto mb-6">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-400 uppercase">
+              <tr className="border-b border-gray-700">
+                <th className="text-left p-2">Table</th>
+                <th className="text-left p-2">Stakes</th>
+                <th className="text-right p-2">Players</th>
+                <th className="text-right p-2">Avg Pot</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {tables.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-gray-500 text-xs">No tables yet. Create one below.</td>
+                </tr>
+              )}
+              {tables.map(t => (
+                <tr key={t.id} className="border-b border-gray-800 hover:bg-white/5">
+                  <td className="p-2 font-bold text-gray-200">
+                    {t.name}
+                    {t.tournament && !t.tournamentId && (
+                      <span className="ml-2 text-[10px] font-normal text-purple-300 uppercase">
+                        Sit & Go ${t.tournament.config.buyIn} · {TOURNAMENT_STATUS_LABELS[t.tournament.status]}
+                      </span>
+                    )}
+                    {t.tournamentId && (
+                      <span className="ml-2 text-[10px] font-normal text-purple-300 uppercase">Tournament</span>
+                    )}
+                  </td>
+                  <td className="p-2 text-yellow-400 font-mono">
+                    <span className="text-gray-400">{formatGame(t.config)} </span>
+                    {t.tournament ? formatBlinds(getBlindLevel(t.tournament)) : formatStakes(t.config)}
+                  </td>
+                  <td className="p-2 text-right font-mono">{t.playerCount}/{t.config.seatCount}</td>
+                  <td className="p-2 text-right font-mono">${t.averagePot}</td>
+                  <td className="p-2 text-right">
+                    <button
+                      onClick={() => onJoin(t.id)}
+                      className="bg-blue-900 hover:bg-blue-800 text-white text-xs font-bold py-1 px-3 rounded border border-blue-600"
+                    >
+                      Join
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Multi-Table Tournaments */}
+        {tournaments.length > 0 && (
+          <div className="bg-black/30 rounded border border-gray-700 max-h-48 overflow-y-auto mb-6">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-400 uppercase">
+                <tr className="border-b border-gray-700">
+                  <th className="text-left p-2">Tournament</th>
+                  <th className="text-right p-2">Buy-in</th>
+                  <th className="text-right p-2">Players</th>
+                  <th className="text-right p-2">Prize Pool</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tournaments.map(t => {
+                  const registered = myPlayerId !== null && t.registeredIds.includes(myPlayerId);
+                  return (
+                    <tr key={t.id} className="border-b border-gray-800 hover:bg-white/5">
+                      <td className="p-2 font-bold text-gray-200">
+                        {t.name}
+                        <span className="ml-2 text-[10px] font-normal text-purple-300 uppercase">
+                          {TOURNAMENT_STATUS_LABELS[t.state.status]}
+                          {t.state.status === 'RUNNING' && ` · ${t.tableCount} table${t.tableCount === 1 ? '' : 's'}`}
+                        </span>
+                      </td>
+                      <td className="p-2 text-right font-mono">${t.state.config.buyIn}</td>
+                      <td className="p-2 text-right font-mono">
+                        {t.state.status === 'REGISTERING' ? `${t.state.entrants}/${t.maxEntrants}` : `${t.remaining}/${t.state.entrants}`}
+                      </td>
+                      <td className="p-2 text-right font-mono text-yellow-400">${t.state.prizePool}</td>
+                      <td className="p-2 text-right space-x-1 whitespace-nowrap">
+                        {t.state.status === 'REGISTERING' && (
+                          <button
+                            onClick={() => toggleRegistration(t)}
+                            className={`text-white text-xs font-bold py-1 px-3 rounded border ${registered ? 'bg-gray-700 hover:bg-gray-600 border-gray-500' : 'bg-green-800 hover:bg-green-700 border-green-600'}`}
+                          >
+                            {registered ? 'Unregister' : 'Register'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onOpenMtt(t.id)}
+                          className="bg-blue-900 hover:bg-blue-800 text-white text-xs font-bold py-1 px-3 rounded border border-blue-600"
+                        >
+                          Lobby
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {mttError && <div className="text-red-400 text-xs p-2">{mttError}</div>}
+          </div>
+        )}
+
+        {/* Create Table */}
+        <div className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">New Table</label>
+            <input
+              type="text"
+              value={name}
+              placeholder="Table name"
+              onChange={(e) => setName(e.target.value)}
+              maxLength={24}
+              className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:border-yellow-500 focus:outline-none"
+            />
+          </div>
+          <select
+            value={kind}
+            onChange={(e) => changeKind(e.target.value as typeof kind)}
+            className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm"
+          >
+            <option value="cash">Cash</option>
+            <option value="sng">Sit & Go</option>
+            <option value="mtt">Tournament</option>
+          </select>
+          {kind === 'cash' && (
+            <select
+              value={stakesIdx}
+              onChange={(e) => setStakesIdx(parseInt(e.target.value))}
+              className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm"
+            >
+              {STAKES_PRESETS.map((s, i) => (
+                <option key={s.label} value={i}>{s.label}</option>
+              ))}
+            </select>
+          )}
+          {kind === 'cash' && (
+            <select
+              value={variant}
+              onChange={(e) => changeVariant(e.target.value as GameVariant)}
+              className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm"
+            >
+              {GAME_VARIANTS.map(v => (
+                <option key={v.variant} value={v.variant}>{v.short}</option>
+              ))}
+            </select>
+          )}
+          {kind === 'cash' && !isStud({ variant }) && (
+            <select
+              value={structure}
+              onChange={(e) => setStructure(e.target.value as BettingStructure)}
+              className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm"
+            >
+              {BETTING_STRUCTURES.map(b => (
+                <option key={b.structure} value={b.structure}>{b.short}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={seatCount}
+            onChange={(e) => setSeatCount(parseInt(e.target.value))}
+            className="bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm"
+          >
+            {seatOptions.map(n => (
+              <option key={n} value={n}>{n}-max</option>
+            ))}
+          </select>
+          <button
+            onClick={create}
+            disabled={!isConnected}
+            className="bg-green-600 hover:bg-green-500 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+          >
+            Create
+          </button>
+        </div>
+
+        {/* Tournament options */}
+        {kind !== 'cash' && (
+          <div className="flex items-center space-x-2 mt-2 text-xs text-gray-400">
+            <label>Buy-in</label>
+            <select
+              value={sngBuyIn}
+              onChange={(e) => setSngBuyIn(parseInt(e.target.value))}
+              className="bg-gray-900 border border-gray-600 rounded p-1 text-white"
+            >
+              {SNG_BUY_IN_OPTIONS.map(n => (
+                <option key={n} value={n}>${n}</option>
+              ))}
+            </select>
+            <label>Levels</label>
+            <select
+              value={levelMinutes}
+              onChange={(e) => setLevelMinutes(parseInt(e.target.value))}
+              className="bg-gray-900 border border-gray-600 rounded p-1 text-white"
+            >
+              {LEVEL_MINUTE_OPTIONS.map(n => (
+                <option key={n} value={n}>{n} min</option>
+              ))}
+            </select>
+            {kind === 'sng' ? (
+              <>
+                <label>Payouts</label>
+                <select
+                  value={PAYOUT_PRESETS.findIndex(p => p.payouts === payouts)}
+                  onChange={(e) => setPayoutIdx(parseInt(e.target.value))}
+                  className="bg-gray-900 border border-gray-600 rounded p-1 text-white"
+                >
+                  {payoutOptions.map(p => (
+                    <option key={p.label} value={PAYOUT_PRESETS.indexOf(p)}>{p.label}</option>
+                  ))}
+                </select>
+              </>
+            ) : (
+              <>
+                <label>Players</label>
+                <select
+                  value={maxEntrants}
+                  onChange={(e) => setMaxEntrants(parseInt(e.target.value))}
+                  className="bg-gray-900 border border-gray-600 rounded p-1 text-white"
+                >
+                  {MAX_ENTRANT_OPTIONS.map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </>
+            )}
+            <span>{DEFAULT_TOURNAMENT_CONFIG.startingStack} chips each</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TableLobby;
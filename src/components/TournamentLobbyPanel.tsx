@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { BotStyle, TournamentLobby } from '../types';
+import { formatBlinds } from '../engine/config';
+import { BOT_STYLES } from '../engine/bots';
+import { getBlindLevel, getPrizes } from '../engine/tournament';
+
+interface TournamentLobbyPanelProps {
+  lobby: TournamentLobby;
+  myPlayerId: string | null;
+  onAddBot: (style: BotStyle) => void;
+  onStart: () => void;
+  onWatch: (tableId: string) => void;
+  onClose: () => void;
+}
+
+// Standings, tables and prizes of a multi-table tournament.
+const TournamentLobbyPanel: React.FC<TournamentLobbyPanelProps> = ({ lobby, myPlayerId, onAddBot, onStart, onWatch, onClose }) => {
+  const [botStyle, setBotStyle] = useState<BotStyle>(BOT_STYLES[0].style);
+  const { state } = lobby;
+  const isHost = myPlayerId !== null && lobby.hostId === myPlayerId;
+  const prizes = getPrizes(state);
+  const finishOf = (playerId: string) => state.finishes.find(f => f.playerId === playerId);
+
+  return (
+    <div className="absolute inset-0 z-[55] flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div className="w-[40rem] max-h-[85%] bg-gray-900 border border-gray-700 rounded-lg shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <div>
+            <h3 className="text-yellow-500 font-bold">{lobby.name}</h3>
+            <div className="text-xs text-gray-400">
+              ${state.config.buyIn} buy-in · {lobby.seatCount}-max · Level {state.levelIndex + 1} {formatBlinds(getBlindLevel(state))}
+              {state.handForHand && <span className="ml-2 text-red-400 font-bold uppercase">Hand-for-hand</span>}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs text-gray-400 uppercase">Prize Pool</div>
+            <div className="text-xl text-yellow-400 font-mono">${state.prizePool}</div>
+          </div>
+        </div>
+
+        {isHost && state.status === 'REGISTERING' && (
+          <div className="flex items-center space-x-2 px-4 py-2 border-b border-gray-700 text-xs">
+            <select
+              value={botStyle}
+              onChange={(e) => setBotStyle(e.target.value as BotStyle)}
+              className="bg-gray-800 border border-gray-700 text-white px-2 py-1 rounded"
+            >
+              {BOT_STYLES.map(b => (
+                <option key={b.style} value={b.style}>{b.label}</option>
+              ))}
+            </select>
+            <button onClick={() => onAddBot(botStyle)} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-1 px-3 rounded">
+              Add Bot
+            </button>
+            <div className="flex-1" />
+            <span className="text-gray-400">{state.entrants}/{lobby.maxEntrants} registered</span>
+            <button
+              onClick={onStart}
+              disabled={state.entrants < 2}
+              className="bg-green-600 hover:bg-green-500 text-white font-bold py-1 px-3 rounded disabled:opacity-40"
+            >
+              Start Now
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-1 overflow-hidden">
+          <div className="flex-1 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-gray-400 uppercase">
+                <tr className="border-b border-gray-700">
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Player</th>
+                  <th className="text-right p-2">Chips</th>
+                  <th className="text-left p-2">Table</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lobby.players.map((p, i) => {
+                  const finish = finishOf(p.playerId);
+                  return (
+                    <tr key={p.playerId} className={`border-b border-gray-800 ${p.playerId === myPlayerId ? 'bg-yellow-900/20' : ''}`}>
+                      <td className="p-2 text-gray-500">{finish ? finish.position : i + 1}</td>
+                      <td className={`p-2 ${finish && finish.position > 1 ? 'text-gray-500' : 'text-gray-200'}`}>{p.name}</td>
+                      <td className="p-2 text-right font-mono">
+                        {finish ? (finish.prize > 0 ? <span className="text-yellow-400">${finish.prize}</span> : 'Out') : p.chips || '—'}
+                      </td>
+                      <td className="p-2 text-gray-400">{p.tableName?.replace(`${lobby.name} · `, '') ?? ''}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="w-48 border-l border-gray-700 overflow-y-auto p-3 text-xs text-gray-300 space-y-3">
+            <div>
+              <div className="text-gray-400 uppercase font-bold mb-1">Tables</div>
+              {lobby.tables.length === 0 && <div className="text-gray-500">Seated at the start.</div>}
+              {lobby.tables.map(t => (
+                <div key={t.id} className="flex items-center justify-between">
+                  <span>{t.name.replace(`${lobby.name} · `, '')} ({t.playerCount})</span>
+                  <button onClick={() => onWatch(t.id)} className="text-blue-300 hover:text-blue-100 underline">Watch</button>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-gray-400 uppercase font-bold mb-1">Payouts</div>
+              {prizes.map((prize, i) => (
+                <div key={i} className="flex justify-between">
+                  <span>{i + 1}.</span>
+                  <span className="font-mono">${prize}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-3 border-t border-gray-700 flex justify-between text-xs">
+          <span className="text-gray-400">{lobby.remaining} of {state.entrants} players left</span>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TournamentLobbyPanel;
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { TournamentState } from '../types';
+import { formatBlinds } from '../engine/config';
+import { getBlindLevel, getPrizes } from '../engine/tournament';
+
+interface TournamentPanelProps {
+  tournament: TournamentState;
+  clockOffset: number; // Server time minus local time, in ms
+  onShowLobby?: () => void; // Multi-table tournaments only
+}
+
+const STATUS_LABELS: Record<TournamentState['status'], string> = {
+  REGISTERING: 'Registering',
+  RUNNING: 'Running',
+  FINISHED: 'Finished',
+};
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Level, blinds and prizes of the tournament this table plays in.
+const TournamentPanel: React.FC<TournamentPanelProps> = ({ tournament, clockOffset, onShowLobby }) => {
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() + clockOffset), 500);
+    return () => clearInterval(timer);
+  }, [clockOffset]);
+
+  const { config, levelIndex, levelEndsAt, finishes } = tournament;
+  const level = getBlindLevel(tournament);
+  const nextLevel = config.levels[levelIndex + 1];
+  const prizes = getPrizes(tournament);
+
+  return (
+    <div className="absolute top-4 right-4 z-40 w-56 bg-black/70 border border-gray-700 rounded-lg p-3 text-xs text-gray-300">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-yellow-500 font-bold uppercase">{onShowLobby ? 'Tournament' : 'Sit & Go'}</span>
+        <span className="text-gray-400">{STATUS_LABELS[tournament.status]}</span>
+      </div>
+      {tournament.status !== 'REGISTERING' && (
+        <div className="flex justify-between text-gray-400 mb-1">
+          <span>{tournament.entrants - finishes.length} of {tournament.entrants} left</span>
+          {tournament.handForHand && <span className="text-red-400 font-bold uppercase">Hand-for-hand</span>}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <span>Level {levelIndex + 1}</span>
+        <span className="text-white font-mono">{formatBlinds(level)}</span>
+      </div>
+      {tournament.status === 'RUNNING' && levelEndsAt !== null && (
+        <div className="flex justify-between text-gray-400">
+          <span>{nextLevel ? `Next ${formatBlinds(nextLevel)}` : 'Final level'}</span>
+          {nextLevel && <span className="font-mono">{formatCountdown(levelEndsAt - now)}</span>}
+        </div>
+      )}
+      {tournament.status === 'REGISTERING' && (
+        <div className="text-gray-400">Starts when every seat is taken · ${config.buyIn} entry</div>
+      )}
+
+      <div className="border-t border-gray-700 mt-2 pt-2">
+        <div className="flex justify-between mb-1">
+          <span>Prize pool</span>
+          <span className="text-yellow-400 font-mono">${tournament.prizePool}</span>
+        </div>
+        {prizes.map((prize, i) => {
+          const finish = finishes.find(f => f.position === i + 1);
+          return (
+            <div key={i} className="flex justify-between text-gray-400">
+              <span>{i + 1}. {finish ? <span className="text-white">{finish.name}</span> : '—'}</span>
+              <span className="font-mono">${prize}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* A multi-table field is too big to list here; its lobby has the standings */}
+      {!onShowLobby && finishes.some(f => f.position > prizes.length) && (
+        <div className="border-t border-gray-700 mt-2 pt-2 text-gray-500">
+          {[...finishes].sort((a, b) => a.position - b.position).filter(f => f.position > prizes.length).map(f => (
+            <div key={f.playerId}>{f.position}. {f.name}</div>
+          ))}
+        </div>
+      )}
+
+      {onShowLobby && (
+        <button onClick={onShowLobby} className="mt-2 text-blue-300 hover:text-blue-100 underline">
+          Tournament lobby
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TournamentPanel;
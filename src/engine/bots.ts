@@ -0,0 +1,201 @@
+import { BotStyle, Card, GamePhase, GameVariant, PlayerStatus } from '../types';
+import { createDeck } from '../utils/poker';
+import { evaluateHandFast } from '../utils/fastEvaluator';
+import { isStud } from './config';
+import { PlayerAction, TableState, getBettingOptions, getTotalPot } from './engine';
+
+// --- Computer Opponents ---
+// Bots only ever look at their own hole cards, the board and stud cards
+// dealt face up: everything unknown is sampled from a fresh deck, never
+// from gameState.deck.
+
+export const BOT_STYLES: { style: BotStyle; label: string; name: string }[] = [
+  { style: 'TIGHT_PASSIVE', label: 'Tight-Passive', name: 'Rock' },
+  { style: 'LOOSE_AGGRESSIVE', label: 'Loose-Aggressive', name: 'Maniac' },
+  { style: 'CALLING_STATION', label: 'Calling Station', name: 'Station' },
+  { style: 'EQUITY', label: 'Equity (Strong)', name: 'Shark' },
+];
+
+export const getBotName = (style: BotStyle, seatIndex: number) =>
+  `${BOT_STYLES.find(b => b.style === style)?.name ?? 'Bot'} ${seatIndex + 1}`;
+
+// Pause before a bot acts so the table doesn't feel automated.
+export const getBotDelayMs = (rng: () => number = Math.random) => 700 + Math.floor(rng() * 1300);
+
+// Bots always agree to run it twice; the lowest vote wins, so humans can
+// still hold them to once.
+export const decideBotRuns = () => 2;
+
+// Chen formula scaled to 0..1 (roughly: 72o ~ 0, AA = 1). An Omaha hand
+// only ever plays two of its cards, so it is rated by its best two.
+export const preflopStrength = (cards: Card[]): number => {
+  if (cards.length > 2) {
+    return Math.max(...cards.flatMap((a, i) => cards.slice(i + 1).map(b => preflopStrength([a, b]))));
+  }
+  const [hi, lo] = [...cards].sort((a, b) => b.value - a.value);
+  const base = (v: number) => (v === 14 ? 10 : v === 13 ? 8 : v === 12 ? 7 : v === 11 ? 6 : v / 2);
+  let score = base(hi.value);
+  if (hi.value === lo.value) score = Math.max(5, score * 2);
+  if (hi.suit === lo.suit) score += 2;
+  const gap = hi.value - lo.value - 1;
+  if (hi.value !== lo.value) {
+    score -= gap <= 0 ? 0 : gap === 1 ? 1 : gap === 2 ? 2 : gap === 3 ? 4 : 5;
+    if (gap <= 1 && hi.value < 12) score += 1;
+  }
+  return Math.min(1, Math.max(0, (score + 1) / 21));
+};
+
+// Made-hand strength from the evaluator's category, for the simpler styles.
+const MADE_HAND_STRENGTH = [0, 0.15, 0.4, 0.65, 0.75, 0.82, 0.86, 0.93, 0.98, 1];
+
+export const madeHandStrength = (cards: Card[], board: Card[], variant: GameVariant = 'HOLDEM'): number =>
+  MADE_HAND_STRENGTH[Math.floor(evaluateHandFast(cards, board, variant).score / 1000000)] ?? 0;
+
+// Razz: the lower the top card of the best low, the better; any pair is weak.
+export const lowHandStrength = (cards: Card[], board: Card[]): number => {
+  const score = evaluateHandFast(cards, board, 'RAZZ').score;
+  if (score < 9000000) return 0.1;
+  const highest = 14 - Math.floor((score % 1000000) / Math.pow(15, 4));
+  return Math.min(1, Math.max(0, (13 - highest) / 8));
+};
+
+// Monte Carlo win probability against `opponents` random hands of as many
+// cards as ours.
+export const estimateEquity = (
+  cards: Card[],
+  board: Card[],
+  opponents: number,
+  variant: GameVariant = 'HOLDEM',
+  samples = 200,
+  rng: () => number = Math.random
+): number => {
+  const known = new Set([...cards, ...board].map(c => c.rank + c.suit));
+  const unknown = createDeck(variant).filter(c => !known.has(c.rank + c.suit));
+  let wins = 0;
+  for (let s = 0; s < samples; s++) {
+    const deck = [...unknown];
+    const draw = () => deck.splice(Math.floor(rng() * deck.length), 1)[0];
+    const runout = [...board];
+    const opponentHands = Array.from({ length: opponents }, () => cards.map(draw));
+    while (runout.length < 5) runout.push(draw());
+    const mine = evaluateHandFast(cards, runout, variant).score;
+    const best = Math.max(...opponentHands.map(h => evaluateHandFast(h, runout, variant).score));
+    if (mine > best) wins += 1;
+    else if (mine === best) wins += 0.5;
+  }
+  return wins / samples;
+};
+
+// Stud version: the opponents' up cards are known, their down cards and
+// every card still to come are sampled. Like the table, it falls back to one
+// shared card when the deck can't give everyone a seventh.
+export const estimateStudEquity = (
+  cards: Card[],
+  opponentUpCards: Card[][],
+  board: Card[],
+  variant: GameVariant = 'STUD',
+  samples = 200,
+  rng: () => number = Math.random
+): number => {
+  const known = new Set([...cards, ...board, ...opponentUpCards.flat()].map(c => c.rank + c.suit));
+  const unknown = createDeck(variant).filter(c => !known.has(c.rank + c.suit));
+  const missing = Math.max(0, 7 - cards.length - board.length);
+  let wins = 0;
+  for (let s = 0; s < samples; s++) {
+    const deck = [...unknown];
+    const draw = () => deck.splice(Math.floor(rng() * deck.length), 1)[0];
+    const opponentHands = opponentUpCards.map(up => [...up]);
+    opponentHands.forEach(h => {
+      while (h.length < cards.length) h.push(draw());
+    });
+    const runout = [...board];
+    const shared = missing > 0 && missing * (opponentHands.length + 1) > deck.length;
+    if (shared) runout.push(draw());
+    const complete = (h: Card[]) => h.concat(Array.from({ length: shared ? missing - 1 : missing }, draw));
+    const mine = evaluateHandFast(complete(cards), runout, variant).score;
+    const best = Math.max(...opponentHands.map(h => evaluateHandFast(complete(h), runout, variant).score));
+    if (mine > best) wins += 1;
+    else if (mine === best) wins += 0.5;
+  }
+  return wins / samples;
+};
+
+interface Decision {
+  strength: number; // 0..1
+  potOdds: number; // Share of the final pot we'd be paying to call
+}
+
+interface StyleProfile {
+  playThreshold: number; // Minimum strength to continue when facing a bet
+  raiseThreshold: number; // Minimum strength to bet or raise
+  bluffRate: number; // Chance to bet anyway with a weak hand
+  potFraction: number; // Bet size as a fraction of the pot
+  callAnyUpTo: number; // Always call when the call is below this share of the stack
+}
+
+const PROFILES: Record<Exclude<BotStyle, 'EQUITY'>, StyleProfile> = {
+  TIGHT_PASSIVE: { playThreshold: 0.55, raiseThreshold: 0.85, bluffRate: 0, potFraction: 0.5, callAnyUpTo: 0 },
+  LOOSE_AGGRESSIVE: { playThreshold: 0.3, raiseThreshold: 0.5, bluffRate: 0.25, potFraction: 0.9, callAnyUpTo: 0.05 },
+  CALLING_STATION: { playThreshold: 0.15, raiseThreshold: 0.9, bluffRate: 0, potFraction: 0.5, callAnyUpTo: 0.3 },
+};
+
+export const decideBotAction = (
+  table: TableState,
+  seatIndex: number,
+  rng: () => number = Math.random
+): PlayerAction => {
+  const { config, players, gameState } = table;
+  const bot = players[seatIndex]!;
+  const options = getBettingOptions(table, seatIndex);
+  const pot = getTotalPot(table);
+  const inHand = players.filter(
+    (p, i) => i !== seatIndex && p && (p.status === PlayerStatus.PLAYING || p.status === PlayerStatus.ALL_IN)
+  );
+  const opponents = inHand.length;
+  const stud = isStud(config);
+
+  const decision: Decision = {
+    strength: 0,
+    potOdds: options.callAmount > 0 ? options.callAmount / (pot + options.callAmount) : 0,
+  };
+  const style = bot.botStyle ?? 'CALLING_STATION';
+  if (style === 'EQUITY' && stud) {
+    const upCards = inHand.map(p => p!.cards.filter(c => c.faceUp));
+    decision.strength = estimateStudEquity(bot.cards, upCards, gameState.communityCards, config.variant, 200, rng);
+  } else if (style === 'EQUITY') {
+    decision.strength = estimateEquity(bot.cards, gameState.communityCards, Math.max(1, opponents), config.variant, 200, rng);
+  } else if (config.variant === 'RAZZ') {
+    decision.strength = lowHandStrength(bot.cards, gameState.communityCards);
+  } else {
+    decision.strength = gameState.phase === GamePhase.PREFLOP
+      ? preflopStrength(bot.cards)
+      : madeHandStrength(bot.cards, gameState.communityCards, config.variant);
+  }
+
+  const raiseBy = (fraction: number): PlayerAction => {
+    const target = gameState.currentBet + Math.round((pot + options.callAmount) * fraction);
+    const raiseTo = Math.min(options.maxRaiseTo, Math.max(options.minRaiseTo, target));
+    return { type: 'raise', amount: raiseTo - gameState.currentBet };
+  };
+  const passive = (): PlayerAction => ({ type: options.canCheck ? 'check' : 'fold' });
+  const call = (): PlayerAction => ({ type: options.canCheck ? 'check' : 'call' });
+
+  if (style === 'EQUITY') {
+    // Value-bet in proportion to equity over a fair share, call with the price.
+    const fairShare = 1 / (opponents + 1);
+    const edge = decision.strength - fairShare;
+    if (options.canRaise && edge > 0.15) return raiseBy(Math.min(1, 0.4 + edge));
+    if (options.canRaise && options.canCheck && rng() < 0.1) return raiseBy(0.5);
+    if (decision.strength >= decision.potOdds) return call();
+    return passive();
+  }
+
+  const profile = PROFILES[style];
+  if (options.canRaise && (decision.strength >= profile.raiseThreshold || rng() < profile.bluffRate)) {
+    return raiseBy(profile.potFraction);
+  }
+  if (options.canCheck) return { type: 'check' };
+  if (options.callAmount <= bot.chips * profile.callAnyUpTo) return { type: 'call' };
+  if (decision.strength >= Math.max(profile.playThreshold, decision.potOdds)) return { type: 'call' };
+  return { type: 'fold' };
+};
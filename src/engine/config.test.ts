@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TableConfig } from '../types';
+import { DEFAULT_TABLE_CONFIG, createTableConfig } from './config';
+
+test('createTableConfig falls back to the defaults for missing or non-object input', () => {
+  [undefined, null, 'x', 5].forEach(input => {
+    assert.deepEqual(createTableConfig(input as Partial<TableConfig> | null), DEFAULT_TABLE_CONFIG);
+  });
+});
+
+test('createTableConfig clamps untrusted values', () => {
+  const config = createTableConfig({ smallBlind: 50, bigBlind: 20.7, seatCount: 40, minBuyIn: 1, ante: -3 });
+  assert.equal(config.bigBlind, 20);
+  assert.equal(config.smallBlind, 20);
+  assert.equal(config.seatCount, 9);
+  assert.equal(config.minBuyIn, 20);
+  assert.equal(config.ante, 0);
+});
@@ -0,0 +1,115 @@
+import { BettingStructure, GameVariant, TableConfig } from '../types';
+
+// --- Table Configuration ---
+
+export const MAX_SEATS = 9;
+
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+  smallBlind: 10,
+  bigBlind: 20,
+  ante: 0,
+  variant: 'HOLDEM',
+  bettingStructure: 'NO_LIMIT',
+  minBuyIn: 400,
+  maxBuyIn: 4000,
+  seatCount: MAX_SEATS,
+  actionTimeoutSec: 30,
+  timeBankSec: 60,
+};
+
+// Seconds added back to each player's time bank every hand they are dealt.
+export const TIME_BANK_REFILL_SEC = 5;
+
+// Most boards an all-in pot can be run over.
+export const MAX_RUNS = 3;
+
+export const BETTING_STRUCTURES: { structure: BettingStructure; label: string; short: string }[] = [
+  { structure: 'NO_LIMIT', label: 'No-Limit', short: 'NL' },
+  { structure: 'POT_LIMIT', label: 'Pot-Limit', short: 'PL' },
+  { structure: 'FIXED_LIMIT', label: 'Fixed-Limit', short: 'FL' },
+];
+
+// Omaha is played pot-limit unless the table says otherwise; stud games
+// are always fixed-limit. holeCards is what each player is dealt first.
+export const GAME_VARIANTS: {
+  variant: GameVariant;
+  label: string;
+  short: string;
+  holeCards: number;
+  structure: BettingStructure;
+  stud: boolean;
+}[] = [
+  { variant: 'HOLDEM', label: "Texas Hold'em", short: "Hold'em", holeCards: 2, structure: 'NO_LIMIT', stud: false },
+  { variant: 'OMAHA', label: 'Omaha', short: 'Omaha', holeCards: 4, structure: 'POT_LIMIT', stud: false },
+  { variant: 'SHORT_DECK', label: "Short Deck (6+ Hold'em)", short: '6+', holeCards: 2, structure: 'NO_LIMIT', stud: false },
+  { variant: 'STUD', label: 'Seven Card Stud', short: 'Stud', holeCards: 3, structure: 'FIXED_LIMIT', stud: true },
+  { variant: 'RAZZ', label: 'Razz', short: 'Razz', holeCards: 3, structure: 'FIXED_LIMIT', stud: true },
+];
+
+export const getHoleCardCount = (config: Pick<TableConfig, 'variant'>) =>
+  GAME_VARIANTS.find(v => v.variant === config.variant)?.holeCards ?? 2;
+
+export const isStud = (config: Pick<TableConfig, 'variant'>) =>
+  GAME_VARIANTS.find(v => v.variant === config.variant)?.stud ?? false;
+
+// Seven cards each for eight players already needs more than one deck.
+export const STUD_MAX_SEATS = 8;
+
+// Fixed-limit streets are capped at a bet and three raises.
+export const FIXED_LIMIT_RAISE_CAP = 4;
+
+export const STAKES_PRESETS: { label: string; config: TableConfig }[] = [5, 10, 25, 50].map(sb => ({
+  label: `$${sb}/$${sb * 2}`,
+  config: { ...DEFAULT_TABLE_CONFIG, smallBlind: sb, bigBlind: sb * 2, minBuyIn: sb * 40, maxBuyIn: sb * 400 },
+}));
+
+const toInt = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : fallback;
+
+// Builds a sane config from untrusted input, filling gaps from the defaults.
+// Anything that isn't an object, null included, counts as no input at all.
+export const createTableConfig = (raw: Partial<TableConfig> | null = {}): TableConfig => {
+  const input: Partial<TableConfig> = raw !== null && typeof raw === 'object' ? raw : {};
+  const bigBlind = Math.max(2, toInt(input.bigBlind, DEFAULT_TABLE_CONFIG.bigBlind));
+  const smallBlind = Math.min(bigBlind, Math.max(1, toInt(input.smallBlind, Math.floor(bigBlind / 2))));
+  const minBuyIn = Math.max(bigBlind, toInt(input.minBuyIn, bigBlind * 20));
+  const variant = GAME_VARIANTS.find(v => v.variant === input.variant) ?? GAME_VARIANTS[0];
+  const ante = Math.min(bigBlind, Math.max(0, toInt(input.ante, 0)));
+  return {
+    smallBlind,
+    bigBlind,
+    // Stud always has an ante; without one a table gets a fifth of the small bet.
+    ante: variant.stud && ante === 0 ? Math.max(1, Math.floor(bigBlind / 5)) : ante,
+    variant: variant.variant,
+    bettingStructure: !variant.stud && BETTING_STRUCTURES.some(b => b.structure === input.bettingStructure)
+      ? input.bettingStructure!
+      : variant.structure,
+    minBuyIn,
+    maxBuyIn: Math.max(minBuyIn, toInt(input.maxBuyIn, bigBlind * 200)),
+    seatCount: Math.min(variant.stud ? STUD_MAX_SEATS : MAX_SEATS, Math.max(2, toInt(input.seatCount, MAX_SEATS))),
+    actionTimeoutSec: Math.min(300, Math.max(5, toInt(input.actionTimeoutSec, DEFAULT_TABLE_CONFIG.actionTimeoutSec))),
+    timeBankSec: Math.min(600, Math.max(0, toInt(input.timeBankSec, DEFAULT_TABLE_CONFIG.timeBankSec))),
+  };
+};
+
+export const getDefaultBuyIn = (config: TableConfig) =>
+  Math.min(config.maxBuyIn, Math.max(config.minBuyIn, config.bigBlind * 100));
+
+export const clampBuyIn = (config: TableConfig, amount: number) =>
+  Math.min(config.maxBuyIn, Math.max(config.minBuyIn, Math.floor(amount) || 0));
+
+export const formatBlinds = (config: Pick<TableConfig, 'smallBlind' | 'bigBlind' | 'ante'>) =>
+  `$${config.smallBlind}/$${config.bigBlind}${config.ante > 0 ? ` (ante $${config.ante})` : ''}`;
+
+// Stud is quoted by its small and big bet, e.g. "$20/$40 (ante $4, bring-in $10)".
+export const formatStakes = (config: Pick<TableConfig, 'smallBlind' | 'bigBlind' | 'ante' | 'variant'>) =>
+  isStud(config)
+    ? `$${config.bigBlind}/$${config.bigBlind * 2} (ante $${config.ante}, bring-in $${config.smallBlind})`
+    : formatBlinds(config);
+
+export const formatStructure = (config: Pick<TableConfig, 'bettingStructure'>) =>
+  BETTING_STRUCTURES.find(b => b.structure === config.bettingStructure)?.short ?? 'NL';
+
+// e.g. "NL Hold'em", "PL Omaha".
+export const formatGame = (config: Pick<TableConfig, 'variant' | 'bettingStructure'>) =>
+  `${formatStructure(config)} ${GAME_VARIANTS.find(v => v.variant === config.variant)?.short ?? "Hold'em"}`;
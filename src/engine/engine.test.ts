@@ -0,0 +1,199 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GamePhase } from '../types';
+import { ActionType, TableState, applyAction, getBettingOptions, nextPhase, startHand, voteRuns } from './engine';
+import { cards, seatPlayers, stackDeck } from '../test/fixtures';
+
+const act = (table: TableState, seatIndex: number, type: ActionType, amount?: number) => {
+  const { state, events } = applyAction(table, seatIndex, { type, amount });
+  const rejected = events.find(e => e.type === 'actionRejected');
+  assert.equal(rejected, undefined, `seat ${seatIndex} could not ${type}`);
+  return state;
+};
+
+const rejectionOf = (table: TableState, seatIndex: number, type: ActionType, amount?: number) => {
+  const { state, events } = applyAction(table, seatIndex, { type, amount });
+  assert.equal(state, table);
+  const rejected = events.find(e => e.type === 'actionRejected');
+  return rejected?.type === 'actionRejected' ? rejected.rejection.code : null;
+};
+
+// Deals streets until the hand is over.
+const runOut = (table: TableState) => {
+  let state = table;
+  while (state.gameState.phase !== GamePhase.SHOWDOWN) state = nextPhase(state).state;
+  return state;
+};
+
+const chips = (table: TableState) => table.players.map(p => p?.chips);
+
+// --- Hold'em ---
+
+test('startHand posts the blinds and deals each seat in turn', () => {
+  const { state } = startHand(seatPlayers({}, [1000, 1000, 1000]), stackDeck('Ah Ad Kh Kd Qh Qd'));
+  const [button, small, big] = state.players;
+  assert.ok(button!.isDealer && small!.isSmallBlind && big!.isBigBlind);
+  assert.deepEqual(state.players.map(p => p?.bet), [0, 10, 20]);
+  assert.deepEqual(big!.cards, cards('Qh Qd'));
+  assert.equal(state.gameState.phase, GamePhase.PREFLOP);
+  assert.equal(state.gameState.currentPlayerIndex, 0);
+});
+
+test('heads-up the dealer posts the small blind and acts first until the flop', () => {
+  let state = startHand(seatPlayers({}, [1000, 1000]), stackDeck('Ah Ad Kh Kd')).state;
+  assert.ok(state.players[0]!.isDealer && state.players[0]!.isSmallBlind);
+  assert.equal(state.gameState.currentPlayerIndex, 0);
+  state = act(act(state, 0, 'call'), 1, 'check');
+  state = nextPhase(state).state;
+  assert.equal(state.gameState.currentPlayerIndex, 1);
+});
+
+test('nextPhase deals the streets from the deck and pays the best hand', () => {
+  let state = startHand(seatPlayers({}, [1000, 1000]), stackDeck('Ah Ad Kh Kd 2c 7d 9h 3s 8c')).state;
+  state = act(act(state, 0, 'call'), 1, 'check');
+  const streets: [GamePhase, string][] = [
+    [GamePhase.FLOP, '2c 7d 9h'],
+    [GamePhase.TURN, '2c 7d 9h 3s'],
+    [GamePhase.RIVER, '2c 7d 9h 3s 8c'],
+  ];
+  streets.forEach(([phase, board]) => {
+    state = nextPhase(state).state;
+    assert.equal(state.gameState.phase, phase);
+    assert.deepEqual(state.gameState.communityCards, cards(board));
+    state = act(act(state, 1, 'check'), 0, 'check');
+  });
+  const { state: end, events } = nextPhase(state);
+  assert.equal(end.gameState.phase, GamePhase.SHOWDOWN);
+  assert.deepEqual(chips(end), [1020, 980]);
+  assert.ok(events.some(e => e.type === 'handEnded' && e.winners[0].playerId === 'p0'));
+});
+
+test('all-in stacks only win the side pots they covered', () => {
+  let state = startHand(seatPlayers({}, [100, 300, 500]), stackDeck('Ah Ad Kh Kd Qh Qd 2c 7d 9h 3s 8c')).state;
+  state = act(state, 0, 'raise', 1000);
+  state = act(state, 1, 'raise', 1000);
+  state = act(state, 2, 'call');
+  assert.deepEqual(state.gameState.runoutVote?.seats, [0, 1, 2]);
+  [0, 1, 2].forEach(seat => {
+    state = voteRuns(state, seat, 1).state;
+  });
+  state = runOut(state);
+  assert.deepEqual(chips(state), [300, 400, 200]);
+});
+
+test('running it twice splits the pot between the boards, odd chip to the first', () => {
+  const deck = stackDeck('Ah Ad 2s 3c Kh Kd 2c 7d 9h Kc 3s 4d 3h 5s 8c 6d');
+  let state = startHand(seatPlayers({ smallBlind: 5, bigBlind: 10 }, [1000, 1000, 1000]), deck).state;
+  state = act(state, 0, 'raise', 2000);
+  state = act(state, 1, 'fold');
+  state = act(state, 2, 'call');
+  state = voteRuns(state, 0, 2).state;
+  state = voteRuns(state, 2, 3).state;
+  state = runOut(state);
+  assert.deepEqual(state.gameState.communityCards, cards('2c 7d 9h 3h 8c'));
+  assert.deepEqual(state.gameState.boards, [cards('Kc 3s 4d 5s 6d')]);
+  assert.deepEqual(
+    state.gameState.winners.map(w => [w.playerId, w.amount, w.runIndex]),
+    [['p0', 1003, 0], ['p2', 1002, 1]]
+  );
+  assert.deepEqual(chips(state), [1003, 995, 1002]);
+});
+
+// --- Raising ---
+
+test('a full raise sets the next minimum raise', () => {
+  let state = startHand(seatPlayers({}, [1000, 1000, 1000])).state;
+  state = act(state, 0, 'raise', 80);
+  assert.equal(rejectionOf(state, 1, 'raise', 60), 'RAISE_TOO_SMALL');
+  state = act(state, 1, 'call');
+  state = act(state, 2, 'raise', 80);
+  const options = getBettingOptions(state, 0);
+  assert.ok(options.canRaise);
+  assert.equal(options.minRaiseTo, 260);
+});
+
+test('a short all-in does not reopen the raising to players who already acted', () => {
+  let state = startHand(seatPlayers({}, [1000, 1000, 150])).state;
+  state = act(state, 0, 'raise', 80);
+  state = act(state, 1, 'call');
+  state = act(state, 2, 'raise', 1000);
+  assert.equal(state.players[2]!.bet, 150);
+  const options = getBettingOptions(state, 0);
+  assert.equal(options.callAmount, 50);
+  assert.ok(!options.canRaise);
+  assert.equal(rejectionOf(state, 0, 'raise', 80), 'RAISE_NOT_ALLOWED');
+  state = act(act(state, 0, 'call'), 1, 'call');
+  assert.equal(state.gameState.currentPlayerIndex, -1);
+});
+
+test('pot-limit raises are capped at calling and then raising the pot', () => {
+  let state = startHand(seatPlayers({ bettingStructure: 'POT_LIMIT' }, [1000, 1000, 1000])).state;
+  assert.equal(getBettingOptions(state, 0).maxRaiseTo, 70);
+  assert.equal(rejectionOf(state, 0, 'raise', 51), 'RAISE_TOO_LARGE');
+  state = act(state, 0, 'raise', 50);
+  assert.equal(getBettingOptions(state, 1).maxRaiseTo, 230);
+});
+
+test('fixed-limit betting raises by one bet until the cap', () => {
+  let state = startHand(seatPlayers({ bettingStructure: 'FIXED_LIMIT' }, [1000, 1000])).state;
+  const first = getBettingOptions(state, 0);
+  assert.equal(first.minRaiseTo, 40);
+  assert.equal(first.maxRaiseTo, 40);
+  assert.equal(rejectionOf(state, 0, 'raise', 40), 'RAISE_TOO_LARGE');
+  state = act(state, 0, 'raise', 20);
+  state = act(state, 1, 'raise', 20);
+  state = act(state, 0, 'raise', 20);
+  assert.equal(state.gameState.currentBet, 80);
+  assert.ok(!getBettingOptions(state, 1).canRaise);
+  assert.equal(rejectionOf(state, 1, 'raise', 20), 'RAISE_NOT_ALLOWED');
+});
+
+test('a fixed-limit all-in short of the big bet does not reopen the betting', () => {
+  let state = startHand(seatPlayers({ bettingStructure: 'FIXED_LIMIT' }, [1000, 1000, 50])).state;
+  state = act(act(act(state, 0, 'call'), 1, 'call'), 2, 'check');
+  state = nextPhase(state).state;
+  state = act(act(act(state, 1, 'check'), 2, 'check'), 0, 'check');
+  state = nextPhase(state).state;
+  assert.equal(state.gameState.phase, GamePhase.TURN);
+  state = act(state, 1, 'check');
+  state = act(state, 2, 'raise', 40);
+  assert.equal(state.players[2]!.bet, 30);
+  assert.equal(getBettingOptions(state, 0).minRaiseTo, 40);
+  state = act(state, 0, 'call');
+  assert.ok(!getBettingOptions(state, 1).canRaise);
+  assert.equal(rejectionOf(state, 1, 'raise', 40), 'RAISE_NOT_ALLOWED');
+  state = act(state, 1, 'call');
+  assert.equal(state.gameState.currentPlayerIndex, -1);
+});
+
+// --- Stud ---
+
+test('the lowest up card brings in, suits breaking ties, and may be completed', () => {
+  let state = startHand(seatPlayers({ variant: 'STUD' }, [1000, 1000, 1000]), stackDeck('Ah Kh Qs Kd Kc 2d As 3c 2c')).state;
+  assert.equal(state.gameState.phase, GamePhase.THIRD_STREET);
+  assert.equal(state.gameState.pot, 12);
+  assert.deepEqual(state.players.map(p => p?.bet), [0, 0, 10]);
+  assert.equal(state.gameState.currentPlayerIndex, 0);
+  const options = getBettingOptions(state, 0);
+  assert.equal(options.minRaiseTo, 20);
+  assert.equal(options.maxRaiseTo, 20);
+  state = act(act(state, 0, 'call'), 1, 'call');
+  state = nextPhase(state).state;
+  assert.equal(state.gameState.phase, GamePhase.FOURTH_STREET);
+  assert.ok(state.players.every(p => p!.cards.length === 4 && p!.cards[3].faceUp));
+});
+
+test('the best hand showing acts first from fourth street', () => {
+  const deck = stackDeck('Ah Kh Qs Kd Kc 2d As 3c 2c 7h 8d 2s');
+  let state = startHand(seatPlayers({ variant: 'STUD' }, [1000, 1000, 1000]), deck).state;
+  state = act(act(state, 0, 'call'), 1, 'call');
+  state = nextPhase(state).state;
+  assert.equal(state.gameState.currentPlayerIndex, 2);
+});
+
+test('razz brings in on the highest up card, counting aces low', () => {
+  const deck = stackDeck('Ah 2h Kd 3c 4c As 5d 6d 9c');
+  const { state } = startHand(seatPlayers({ variant: 'RAZZ' }, [1000, 1000, 1000]), deck);
+  assert.deepEqual(state.players.map(p => p?.bet), [10, 0, 0]);
+  assert.equal(state.gameState.currentPlayerIndex, 1);
+});
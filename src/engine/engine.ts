@@ -0,0 +1,764 @@
+import {
+  ActionRejection, Card, GamePhase, GameState, GameVariant, Player, PlayerStatus, PotAward, PublicPlayer, PublicTableState, Suit,
+  TableConfig,
+} from '../types';
+import { createDeck, shuffleDeck, evaluateHand } from '../utils/poker';
+import { buildPots, getPotName, splitPot } from './pots';
+import { calculateEquity } from './equity';
+import {
+  DEFAULT_TABLE_CONFIG, FIXED_LIMIT_RAISE_CAP, MAX_RUNS, TIME_BANK_REFILL_SEC, formatBlinds, getHoleCardCount, isStud,
+} from './config';
+
+// --- Shared Game Engine ---
+// Pure hand lifecycle used by both server.js and the offline table.
+// Every function takes a TableState and returns a new one plus the events
+// that happened, never mutating its input.
+
+const MAX_LOGS = 50;
+
+export interface TableState {
+  config: TableConfig;
+  players: (Player | null)[];
+  gameState: GameState;
+}
+
+export type ActionType = 'fold' | 'check' | 'call' | 'raise';
+const ACTION_TYPES: ActionType[] = ['fold', 'check', 'call', 'raise'];
+
+export interface PlayerAction {
+  type: ActionType;
+  amount?: number; // Raise size on top of the current bet
+}
+
+export type EngineEvent =
+  | { type: 'handStarted'; dealerIndex: number; smallBlindIndex: number; bigBlindIndex: number }
+  | { type: 'action'; seatIndex: number; action: ActionType; amount: number; betTo: number; allIn: boolean }
+  | { type: 'uncalledBetReturned'; seatIndex: number; amount: number }
+  | { type: 'actionRejected'; seatIndex: number; rejection: ActionRejection }
+  | { type: 'roundComplete'; phase: GamePhase }
+  | { type: 'runoutVoteOpened'; seats: number[] }
+  | { type: 'runsVoted'; seatIndex: number; runs: number }
+  | { type: 'phaseChanged'; phase: GamePhase; communityCards: Card[] }
+  | { type: 'handEnded'; winners: PotAward[] }
+  | { type: 'handVoided'; refunds: { seatIndex: number; amount: number }[] };
+
+// What the seat to act may legally do, in "raise to" terms.
+export interface BettingOptions {
+  callAmount: number;
+  canCheck: boolean;
+  canRaise: boolean;
+  minRaiseTo: number;
+  maxRaiseTo: number;
+  allInTo: number; // Bet total if the whole stack goes in
+}
+
+export interface EngineResult {
+  state: TableState;
+  events: EngineEvent[];
+}
+
+export const createInitialGameState = (config: TableConfig, logs: string[] = []): GameState => ({
+  pot: 0,
+  pots: [],
+  communityCards: [],
+  deck: [],
+  phase: GamePhase.IDLE,
+  currentPlayerIndex: -1,
+  dealerIndex: -1,
+  minBet: config.bigBlind,
+  raiseCount: 0,
+  currentBet: 0,
+  lastRaiserIndex: null,
+  actionClock: null,
+  equity: [],
+  runoutVote: null,
+  boards: [],
+  winners: [],
+  logs,
+});
+
+export const createTable = (config: TableConfig = DEFAULT_TABLE_CONFIG, logs: string[] = []): TableState => ({
+  config,
+  players: new Array(config.seatCount).fill(null),
+  gameState: createInitialGameState(config, logs),
+});
+
+const cloneTable = (table: TableState): TableState => structuredClone(table);
+
+const addLog = (table: TableState, msg: string) => {
+  table.gameState.logs.push(msg);
+  if (table.gameState.logs.length > MAX_LOGS) table.gameState.logs.shift();
+};
+
+const isInHand = (p: Player | null): p is Player =>
+  !!p && (p.status === PlayerStatus.PLAYING || p.status === PlayerStatus.ALL_IN);
+
+const canAct = <P extends PublicPlayer>(p: P | null): p is P => !!p && p.status === PlayerStatus.PLAYING;
+
+// Next seat after `from` (exclusive) matching the predicate, or -1.
+export const findNextSeat = (
+  players: (Player | null)[],
+  from: number,
+  predicate: (p: Player | null) => boolean
+): number => {
+  for (let step = 1; step <= players.length; step++) {
+    const i = (from + step) % players.length;
+    if (predicate(players[i])) return i;
+  }
+  return -1;
+};
+
+const commitChips = (p: Player, amount: number) => {
+  p.chips -= amount;
+  p.bet += amount;
+  p.totalBet += amount;
+};
+
+const postBlind = (p: Player, amount: number) => {
+  commitChips(p, Math.min(amount, p.chips));
+  if (p.chips === 0) p.status = PlayerStatus.ALL_IN;
+};
+
+export const getChipSummary = (players: (Player | null)[]) =>
+  players
+    .filter((p): p is Player => p !== null)
+    .map(p => `${p.name}: $${p.chips}`)
+    .join(' | ');
+
+export const getTotalPot = (table: PublicTableState) =>
+  table.gameState.pot + table.players.reduce((sum, p) => sum + (p?.bet || 0), 0);
+
+// --- Stud ---
+// Stud games deal each player their own cards, some face up, and have no
+// board or blinds. Whoever shows the worst card pays the bring-in; on later
+// streets the best hand showing acts first.
+
+const SUIT_ORDER: Record<Suit, number> = {
+  [Suit.CLUBS]: 0, [Suit.DIAMONDS]: 1, [Suit.HEARTS]: 2, [Suit.SPADES]: 3,
+};
+
+// Lower is worse. Razz plays aces low and wants low cards, so it is the
+// other way round there. Suits break ties: clubs lowest, spades highest.
+const upCardRank = (card: Card, variant: GameVariant) => {
+  const value = variant === 'RAZZ' && card.value === 14 ? 1 : card.value;
+  const rank = value * 4 + SUIT_ORDER[card.suit];
+  return variant === 'RAZZ' ? -rank : rank;
+};
+
+const findBringIn = (table: TableState): number => {
+  let worst = -1;
+  table.players.forEach((p, i) => {
+    if (!canAct(p)) return;
+    const rank = (seat: number) => upCardRank(table.players[seat]!.cards[2], table.config.variant);
+    if (worst === -1 || rank(i) < rank(worst)) worst = i;
+  });
+  return worst;
+};
+
+// Seat with the best hand showing; ties go to the first after the dealer.
+const findBestShowing = (table: TableState): number => {
+  const { players, gameState } = table;
+  let best = -1;
+  let bestScore = -1;
+  for (let step = 1; step <= players.length; step++) {
+    const i = (gameState.dealerIndex + step) % players.length;
+    const p = players[i];
+    if (!isInHand(p)) continue;
+    const score = evaluateHand(p.cards.filter(c => c.faceUp), [], table.config.variant).score;
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// One more card to everyone still in. Eight players can need more than the
+// deck holds on seventh street; then one shared card is dealt face up instead.
+const dealStudStreet = (table: TableState, faceUp: boolean) => {
+  const { players, gameState } = table;
+  const inHand = players.filter(isInHand);
+  if (gameState.deck.length < inHand.length) {
+    gameState.communityCards.push({ ...gameState.deck.pop()!, faceUp: true });
+    addLog(table, 'Not enough cards left: one shared card dealt face up.');
+    return;
+  }
+  inHand.forEach(p => p.cards.push({ ...gameState.deck.pop()!, faceUp }));
+};
+
+const STUD_STREETS: Partial<Record<GamePhase, { next: GamePhase; faceUp: boolean; name: string }>> = {
+  [GamePhase.THIRD_STREET]: { next: GamePhase.FOURTH_STREET, faceUp: true, name: 'Fourth street' },
+  [GamePhase.FOURTH_STREET]: { next: GamePhase.FIFTH_STREET, faceUp: true, name: 'Fifth street' },
+  [GamePhase.FIFTH_STREET]: { next: GamePhase.SIXTH_STREET, faceUp: true, name: 'Sixth street' },
+  [GamePhase.SIXTH_STREET]: { next: GamePhase.SEVENTH_STREET, faceUp: false, name: 'Seventh street' },
+};
+
+// --- Hand Start ---
+
+// In tournaments players who are away are still dealt in (and blinded off);
+// at cash tables they simply miss hands.
+export interface StartHandOptions {
+  dealSittingOut?: boolean;
+}
+
+export const startHand = (
+  input: TableState,
+  deck: Card[] = shuffleDeck(createDeck(input.config.variant)),
+  { dealSittingOut = false }: StartHandOptions = {}
+): EngineResult => {
+  const table = cloneTable(input);
+  const { config, players, gameState } = table;
+  const events: EngineEvent[] = [];
+
+  const activeIdxs: number[] = [];
+  players.forEach((p, i) => {
+    if (!p) return;
+    p.bet = 0;
+    p.totalBet = 0;
+    p.cards = [];
+    p.hasActed = false;
+    p.isDealer = false;
+    p.isSmallBlind = false;
+    p.isBigBlind = false;
+    if (p.chips <= 0) {
+      p.status = PlayerStatus.BUSTED;
+    } else if (p.isSittingOut && !dealSittingOut) {
+      p.status = PlayerStatus.SITTING_OUT;
+    } else {
+      p.status = PlayerStatus.PLAYING;
+      p.timeBank = Math.min(config.timeBankSec, p.timeBank + TIME_BANK_REFILL_SEC);
+      activeIdxs.push(i);
+    }
+  });
+
+  if (activeIdxs.length < 2) {
+    gameState.phase = GamePhase.IDLE;
+    gameState.currentPlayerIndex = -1;
+    addLog(table, 'Need at least 2 players with chips to start.');
+    return { state: table, events };
+  }
+
+  const dealerIdx = gameState.dealerIndex === -1
+    ? activeIdxs[0]
+    : findNextSeat(players, gameState.dealerIndex, isInHand);
+
+  // Heads-up the dealer posts the small blind and acts first preflop.
+  // Stud still moves the button, though only to settle ties and odd chips.
+  const stud = isStud(config);
+  const sbIdx = stud ? -1 : activeIdxs.length === 2 ? dealerIdx : findNextSeat(players, dealerIdx, isInHand);
+  const bbIdx = stud ? -1 : findNextSeat(players, sbIdx, isInHand);
+
+  // Antes are dead money: straight into the pot, never part of the bet to match.
+  let antes = 0;
+  if (config.ante > 0) {
+    activeIdxs.forEach(i => {
+      const p = players[i]!;
+      const ante = Math.min(config.ante, p.chips);
+      p.chips -= ante;
+      p.totalBet += ante;
+      antes += ante;
+      if (p.chips === 0) p.status = PlayerStatus.ALL_IN;
+    });
+  }
+
+  if (!stud) {
+    players[dealerIdx]!.isDealer = true;
+    players[sbIdx]!.isSmallBlind = true;
+    players[bbIdx]!.isBigBlind = true;
+    postBlind(players[sbIdx]!, config.smallBlind);
+    postBlind(players[bbIdx]!, config.bigBlind);
+  }
+
+  // Stud: two down, one up.
+  const handDeck = [...deck];
+  const holeCards = getHoleCardCount(config);
+  activeIdxs.forEach(i => {
+    players[i]!.cards = Array.from({ length: holeCards }, (_, n) =>
+      stud ? { ...handDeck.pop()!, faceUp: n === holeCards - 1 } : handDeck.pop()!
+    );
+  });
+
+  table.gameState = {
+    ...gameState,
+    pot: antes,
+    pots: [],
+    communityCards: [],
+    deck: handDeck,
+    phase: GamePhase.PREFLOP,
+    currentPlayerIndex: -1,
+    dealerIndex: dealerIdx,
+    minBet: config.bigBlind,
+    raiseCount: 1,
+    currentBet: config.bigBlind,
+    lastRaiserIndex: bbIdx,
+    equity: [],
+    runoutVote: null,
+    boards: [],
+    winners: [],
+    logs: [],
+  };
+  if (stud) {
+    startStudBetting(table, events);
+    return { state: table, events };
+  }
+  addLog(table, `New hand dealt. Blinds ${formatBlinds(config)}.`);
+  events.push({ type: 'handStarted', dealerIndex: dealerIdx, smallBlindIndex: sbIdx, bigBlindIndex: bbIdx });
+
+  moveToNextActor(table, bbIdx, events);
+  return { state: table, events };
+};
+
+// The bring-in is a forced bet of the small blind amount. Anyone after it
+// may complete to the small bet, which counts as the street's first bet.
+const startStudBetting = (table: TableState, events: EngineEvent[]) => {
+  const { config, players, gameState } = table;
+  const bringInIdx = findBringIn(table);
+  const bringIn = bringInIdx === -1 ? null : players[bringInIdx]!;
+  if (bringIn) {
+    postBlind(bringIn, config.smallBlind);
+    bringIn.hasActed = true;
+  }
+  const currentBet = bringIn?.bet ?? 0;
+  const complete = currentBet >= config.bigBlind;
+  Object.assign(gameState, {
+    phase: GamePhase.THIRD_STREET,
+    currentBet,
+    minBet: complete ? config.bigBlind : config.bigBlind - currentBet,
+    raiseCount: complete ? 1 : 0,
+    lastRaiserIndex: bringIn ? bringInIdx : null,
+  });
+  addLog(table, `New hand dealt. Antes $${config.ante}.${bringIn ? ` ${bringIn.name} brings in for $${currentBet}.` : ''}`);
+  events.push({ type: 'handStarted', dealerIndex: gameState.dealerIndex, smallBlindIndex: -1, bigBlindIndex: -1 });
+  moveToNextActor(table, bringIn ? bringInIdx : gameState.dealerIndex, events);
+};
+
+// --- Betting ---
+
+export const isBettingRoundComplete = (table: TableState): boolean => {
+  const { players, gameState } = table;
+  const actors = players.filter(canAct);
+  if (actors.length === 0) return true;
+  // A lone player facing only all-ins has nothing left to decide once matched.
+  if (actors.length === 1 && actors[0].bet >= gameState.currentBet) return true;
+  return actors.every(p => p.hasActed && p.bet === gameState.currentBet);
+};
+
+// Nobody has a betting decision left: the rest of the board just gets dealt.
+const isRunout = (table: TableState) =>
+  table.players.filter(isInHand).length > 1 && table.players.filter(canAct).length <= 1;
+
+// Once no more betting is possible, the hands are tabled with their odds.
+// With several runs, a hand's equity is its average over the boards.
+const updateRunoutEquity = (table: TableState) => {
+  const { players, gameState } = table;
+  const hands = players
+    .map((p, seatIndex) => ({ seatIndex, cards: p?.cards ?? [] }))
+    .filter(({ seatIndex }) => isInHand(players[seatIndex]));
+  const runs = [gameState.communityCards, ...gameState.boards].map(board =>
+    calculateEquity(hands, board, gameState.deck, table.config.variant)
+  );
+  gameState.equity = hands.map(({ seatIndex }, i) => ({
+    seatIndex,
+    win: runs.reduce((sum, run) => sum + run[i].win, 0) / runs.length,
+    tie: runs.reduce((sum, run) => sum + run[i].tie, 0) / runs.length,
+  }));
+};
+
+export const isRunoutVoteOpen = (gameState: GameState) =>
+  !!gameState.runoutVote && gameState.runoutVote.votes.some(v => v === null);
+
+const describeRuns = (runs: number) => (runs === 1 ? 'once' : runs === 2 ? 'twice' : `${runs} times`);
+
+// Before the first card of an all-in run-out, everyone still in may agree
+// to run the board more than once. Dealing waits until they have answered.
+const openRunoutVote = (table: TableState, events: EngineEvent[]): boolean => {
+  const { players, gameState } = table;
+  if (gameState.runoutVote || gameState.communityCards.length >= 5 || isStud(table.config)) return false;
+  const seats = players.map((p, i) => (isInHand(p) ? i : -1)).filter(i => i !== -1);
+  gameState.runoutVote = { seats, votes: seats.map(() => null) };
+  addLog(table, 'All in! Run it more than once?');
+  events.push({ type: 'runoutVoteOpened', seats });
+  return true;
+};
+
+const moveToNextActor = (table: TableState, from: number, events: EngineEvent[]) => {
+  if (isBettingRoundComplete(table)) {
+    table.gameState.currentPlayerIndex = -1;
+    if (isRunout(table)) {
+      updateRunoutEquity(table);
+      if (openRunoutVote(table, events)) return;
+    }
+    events.push({ type: 'roundComplete', phase: table.gameState.phase });
+    return;
+  }
+  table.gameState.currentPlayerIndex = findNextSeat(
+    table.players,
+    from,
+    p => canAct(p) && (!p.hasActed || p.bet < table.gameState.currentBet)
+  );
+};
+
+const BIG_BET_STREETS = [
+  GamePhase.TURN, GamePhase.RIVER, GamePhase.FIFTH_STREET, GamePhase.SIXTH_STREET, GamePhase.SEVENTH_STREET,
+];
+
+// Size of every bet and raise at a fixed-limit table on the current street.
+export const getFixedBetSize = (table: PublicTableState) =>
+  BIG_BET_STREETS.includes(table.gameState.phase) ? table.config.bigBlind * 2 : table.config.bigBlind;
+
+// The legal raise range depends on the table's betting structure:
+// - No-limit: at least the last full raise, up to the whole stack.
+// - Pot-limit: the same minimum, up to calling and then raising the pot.
+// - Fixed-limit: exactly one bet size, until the street's raises are capped.
+// Only public seat state is read, so clients can call it on their own view.
+export const getBettingOptions = (table: PublicTableState, seatIndex: number): BettingOptions => {
+  const { config, gameState } = table;
+  const p = table.players[seatIndex];
+  const callAmount = p ? Math.max(0, gameState.currentBet - p.bet) : 0;
+  const stackTo = p ? p.bet + p.chips : 0;
+  let maxRaiseTo = stackTo;
+  let minRaiseTo = Math.min(gameState.currentBet + gameState.minBet, maxRaiseTo);
+  if (config.bettingStructure === 'POT_LIMIT') {
+    maxRaiseTo = Math.min(stackTo, gameState.currentBet + getTotalPot(table) + callAmount);
+    minRaiseTo = Math.min(minRaiseTo, maxRaiseTo);
+  } else if (config.bettingStructure === 'FIXED_LIMIT') {
+    // Until the street's first full bet (e.g. over a stud bring-in), a raise completes it.
+    const betTo = gameState.raiseCount === 0 ? 0 : gameState.currentBet;
+    maxRaiseTo = minRaiseTo = Math.min(stackTo, betTo + getFixedBetSize(table));
+  }
+  const capped = config.bettingStructure === 'FIXED_LIMIT' && gameState.raiseCount >= FIXED_LIMIT_RAISE_CAP;
+  // Raising needs chips beyond the call, someone left to respond, and open
+  // action: after acting, only a full raise by someone else lets you raise again.
+  const othersCanRespond = table.players.some((o, i) => i !== seatIndex && canAct(o));
+  const canRaise = !!p && canAct(p) && !p.hasActed && p.chips > callAmount && othersCanRespond && !capped;
+  return {
+    callAmount,
+    canCheck: callAmount === 0,
+    canRaise,
+    minRaiseTo,
+    maxRaiseTo,
+    allInTo: stackTo,
+  };
+};
+
+// Returns why the seat may not take this action right now, or null if it may.
+// Input comes straight off the wire, so nothing about `action` is trusted.
+export const validateAction = (table: TableState, seatIndex: number, action: PlayerAction): ActionRejection | null => {
+  const { gameState } = table;
+  if (gameState.phase === GamePhase.IDLE || gameState.phase === GamePhase.SHOWDOWN) {
+    return { code: 'NO_HAND', message: 'No hand in progress.' };
+  }
+  const p = table.players[seatIndex];
+  if (!p) return { code: 'NOT_SEATED', message: 'You are not seated at this table.' };
+  if (seatIndex !== gameState.currentPlayerIndex || !canAct(p)) {
+    return { code: 'NOT_YOUR_TURN', message: 'It is not your turn.' };
+  }
+  if (!ACTION_TYPES.includes(action?.type)) return { code: 'UNKNOWN_ACTION', message: 'Unknown action.' };
+
+  const callAmount = gameState.currentBet - p.bet;
+  if (action.type === 'check' && callAmount > 0) {
+    return { code: 'ILLEGAL_CHECK', message: `Cannot check, $${callAmount} to call.` };
+  }
+  if (action.type === 'call' && callAmount <= 0) {
+    return { code: 'NOTHING_TO_CALL', message: 'Nothing to call, check instead.' };
+  }
+  if (action.type === 'raise') {
+    const raiseBy = action.amount;
+    if (typeof raiseBy !== 'number' || !Number.isInteger(raiseBy) || raiseBy <= 0) {
+      return { code: 'INVALID_AMOUNT', message: 'Raise amount must be a positive whole number.' };
+    }
+    const options = getBettingOptions(table, seatIndex);
+    if (!options.canRaise) {
+      return { code: 'RAISE_NOT_ALLOWED', message: 'Raising is not allowed here, call or fold.' };
+    }
+    const raiseTo = gameState.currentBet + raiseBy;
+    if (raiseTo < options.minRaiseTo) {
+      return { code: 'RAISE_TOO_SMALL', message: `Minimum raise is to $${options.minRaiseTo}.` };
+    }
+    // Asking for more than the stack is just all-in; only a limit can be exceeded.
+    if (raiseTo > options.maxRaiseTo && options.maxRaiseTo < p.bet + p.chips) {
+      return { code: 'RAISE_TOO_LARGE', message: `Maximum raise is to $${options.maxRaiseTo}.` };
+    }
+  }
+  return null;
+};
+
+export const applyAction = (input: TableState, seatIndex: number, action: PlayerAction): EngineResult => {
+  const rejection = validateAction(input, seatIndex, action);
+  if (rejection) {
+    return { state: input, events: [{ type: 'actionRejected', seatIndex, rejection }] };
+  }
+
+  const table = cloneTable(input);
+  const p = table.players[seatIndex]!;
+  const events: EngineEvent[] = [];
+  const callAmount = table.gameState.currentBet - p.bet;
+  let put = 0;
+  let log = '';
+
+  if (action.type === 'fold') {
+    p.status = PlayerStatus.FOLDED;
+    log = `${p.name} folds.`;
+  } else if (action.type === 'check') {
+    log = `${p.name} checks.`;
+  } else if (action.type === 'call') {
+    put = Math.min(callAmount, p.chips);
+    log = `${p.name} calls ${put}.`;
+  } else if (action.type === 'raise') {
+    put = Math.min(callAmount + action.amount!, p.chips);
+    log = `${p.name} raises to ${p.bet + put}.`;
+  }
+
+  commitChips(p, put);
+  p.hasActed = true;
+  const allIn = p.chips === 0 && action.type !== 'fold';
+  if (allIn) {
+    p.status = PlayerStatus.ALL_IN;
+    log = `${p.name} goes All-In for ${p.bet}!`;
+  }
+  if (p.bet > table.gameState.currentBet) {
+    const increment = p.bet - table.gameState.currentBet;
+    table.gameState.currentBet = p.bet;
+    table.gameState.lastRaiserIndex = seatIndex;
+    // A full raise reopens the action; a short all-in only has to be called.
+    if (increment >= table.gameState.minBet) {
+      table.gameState.minBet = increment;
+      table.gameState.raiseCount++;
+      table.players.forEach((o, i) => {
+        if (o && i !== seatIndex) o.hasActed = false;
+      });
+    }
+  }
+
+  addLog(table, log);
+  events.push({ type: 'action', seatIndex, action: action.type, amount: put, betTo: p.bet, allIn });
+
+  const remaining = table.players.filter(isInHand);
+  if (remaining.length === 1) {
+    awardToLastPlayer(table, remaining[0], events);
+    return { state: table, events };
+  }
+
+  moveToNextActor(table, seatIndex, events);
+  return { state: table, events };
+};
+
+// --- Run It Twice ---
+
+export const voteRuns = (input: TableState, seatIndex: number, runs: number): EngineResult => {
+  const vote = input.gameState.runoutVote;
+  const slot = vote ? vote.seats.indexOf(seatIndex) : -1;
+  if (!vote || slot === -1 || vote.votes[slot] !== null) {
+    const rejection: ActionRejection = { code: 'NOT_VOTING', message: 'There is no run-out vote for you to answer.' };
+    return { state: input, events: [{ type: 'actionRejected', seatIndex, rejection }] };
+  }
+  if (typeof runs !== 'number' || !Number.isInteger(runs) || runs < 1 || runs > MAX_RUNS) {
+    const rejection: ActionRejection = { code: 'INVALID_AMOUNT', message: `Choose between 1 and ${MAX_RUNS} runs.` };
+    return { state: input, events: [{ type: 'actionRejected', seatIndex, rejection }] };
+  }
+
+  const table = cloneTable(input);
+  const { gameState } = table;
+  const events: EngineEvent[] = [];
+  const votes = gameState.runoutVote!.votes;
+  votes[slot] = runs;
+  addLog(table, `${table.players[seatIndex]!.name} wants to run it ${describeRuns(runs)}.`);
+  events.push({ type: 'runsVoted', seatIndex, runs });
+
+  if (votes.every(v => v !== null)) {
+    const runCount = Math.min(...(votes as number[]));
+    gameState.boards = Array.from({ length: runCount - 1 }, () => [...gameState.communityCards]);
+    addLog(table, `Running it ${describeRuns(runCount)}.`);
+    updateRunoutEquity(table);
+    events.push({ type: 'roundComplete', phase: gameState.phase });
+  }
+  return { state: table, events };
+};
+
+// --- Streets ---
+
+// The part of the top bet nobody matched goes straight back to its owner.
+const returnUncalledBet = (table: TableState, events: EngineEvent[]) => {
+  const bettors = table.players
+    .filter((p): p is Player => !!p && p.bet > 0)
+    .sort((a, b) => b.bet - a.bet);
+  if (bettors.length === 0) return;
+  const uncalled = bettors[0].bet - (bettors[1]?.bet || 0);
+  if (uncalled <= 0) return;
+  const p = bettors[0];
+  p.bet -= uncalled;
+  p.totalBet -= uncalled;
+  p.chips += uncalled;
+  if (p.status === PlayerStatus.ALL_IN && p.chips > 0) p.status = PlayerStatus.PLAYING;
+  addLog(table, `Uncalled bet of $${uncalled} returned to ${p.name}.`);
+  events.push({ type: 'uncalledBetReturned', seatIndex: table.players.indexOf(p), amount: uncalled });
+};
+
+const collectBets = (table: TableState, events: EngineEvent[]) => {
+  returnUncalledBet(table, events);
+  table.players.forEach(p => {
+    if (!p) return;
+    table.gameState.pot += p.bet;
+    p.bet = 0;
+    p.hasActed = false;
+  });
+  table.gameState.pots = buildPots(table.players);
+};
+
+// Called once the betting round is complete: deals the next street or runs
+// the showdown. When nobody can act, the caller keeps calling until SHOWDOWN.
+export const nextPhase = (input: TableState): EngineResult => {
+  const table = cloneTable(input);
+  const { gameState } = table;
+  const events: EngineEvent[] = [];
+
+  if (gameState.phase === GamePhase.IDLE || gameState.phase === GamePhase.SHOWDOWN || isRunoutVoteOpen(gameState)) {
+    return { state: input, events };
+  }
+
+  collectBets(table, events);
+
+  const remaining = table.players.filter(isInHand);
+  if (remaining.length === 1) {
+    awardToLastPlayer(table, remaining[0], events);
+    return { state: table, events };
+  }
+
+  // Every run gets its own cards for the street, all from the same deck.
+  const dealStreet = (count: number) =>
+    [gameState.communityCards, ...gameState.boards].forEach(board => {
+      for (let i = 0; i < count; i++) board.push(gameState.deck.pop()!);
+    });
+
+  switch (gameState.phase) {
+    case GamePhase.PREFLOP:
+      dealStreet(3);
+      gameState.phase = GamePhase.FLOP;
+      addLog(table, 'Flop dealt.');
+      break;
+    case GamePhase.FLOP:
+      dealStreet(1);
+      gameState.phase = GamePhase.TURN;
+      addLog(table, 'Turn dealt.');
+      break;
+    case GamePhase.TURN:
+      dealStreet(1);
+      gameState.phase = GamePhase.RIVER;
+      addLog(table, 'River dealt.');
+      break;
+    case GamePhase.THIRD_STREET:
+    case GamePhase.FOURTH_STREET:
+    case GamePhase.FIFTH_STREET:
+    case GamePhase.SIXTH_STREET: {
+      const street = STUD_STREETS[gameState.phase]!;
+      dealStudStreet(table, street.faceUp);
+      gameState.phase = street.next;
+      addLog(table, `${street.name} dealt.`);
+      break;
+    }
+    case GamePhase.RIVER:
+    case GamePhase.SEVENTH_STREET:
+      gameState.phase = GamePhase.SHOWDOWN;
+      addLog(table, 'Showdown!');
+      runShowdown(table, events);
+      return { state: table, events };
+  }
+
+  events.push({ type: 'phaseChanged', phase: gameState.phase, communityCards: [...gameState.communityCards] });
+
+  gameState.currentBet = 0;
+  // At fixed-limit a full raise is a whole bet, which doubles on the big-bet
+  // streets; anything short of it is an all-in that cannot reopen the action.
+  gameState.minBet = table.config.bettingStructure === 'FIXED_LIMIT' ? getFixedBetSize(table) : table.config.bigBlind;
+  gameState.raiseCount = 0;
+  gameState.lastRaiserIndex = null;
+  if (isStud(table.config)) {
+    const best = findBestShowing(table);
+    moveToNextActor(table, (best - 1 + table.players.length) % table.players.length, events);
+  } else {
+    moveToNextActor(table, gameState.dealerIndex, events);
+  }
+  return { state: table, events };
+};
+
+// --- Showdown ---
+
+const finishHand = (table: TableState, winners: PotAward[], events: EngineEvent[]) => {
+  table.gameState.pot = 0;
+  table.gameState.pots = [];
+  table.gameState.phase = GamePhase.SHOWDOWN;
+  table.gameState.currentPlayerIndex = -1;
+  table.gameState.equity = [];
+  table.gameState.winners = winners;
+  addLog(table, `End of Hand Stats: ${getChipSummary(table.players)}`);
+  events.push({ type: 'handEnded', winners });
+};
+
+const awardToLastPlayer = (table: TableState, winner: Player, events: EngineEvent[]) => {
+  collectBets(table, events);
+  const amount = table.gameState.pot;
+  winner.chips += amount;
+  addLog(table, `${winner.name} wins $${amount} (opponents folded).`);
+  finishHand(table, [{ playerId: winner.id, handName: 'Opponents Folded', amount, potIndex: 0, cards: [], runIndex: 0 }], events);
+};
+
+// Each pot is divided evenly between the runs (odd chips to the first run),
+// then every run's share goes to the best hand on that board.
+const runShowdown = (table: TableState, events: EngineEvent[]) => {
+  const { players, gameState } = table;
+  const runs = [gameState.communityCards, ...gameState.boards];
+
+  const winners: PotAward[] = [];
+  runs.forEach((board, runIndex) => {
+    const evals = new Map(
+      players.map((p, index) => [index, isInHand(p) ? evaluateHand(p.cards, board, table.config.variant) : null])
+    );
+    const runLabel = runs.length > 1 ? ` (run ${runIndex + 1})` : '';
+
+    gameState.pots.forEach((pot, potIndex) => {
+      const share = Math.floor(pot.amount / runs.length) + (runIndex < pot.amount % runs.length ? 1 : 0);
+      const bestScore = Math.max(...pot.eligibleSeats.map(i => evals.get(i)!.score));
+      const bestSeats = pot.eligibleSeats.filter(i => evals.get(i)!.score === bestScore);
+      splitPot(share, bestSeats, gameState.dealerIndex, players.length).forEach(({ seat, amount }) => {
+        const p = players[seat]!;
+        const { name: handName, cards } = evals.get(seat)!;
+        p.chips += amount;
+        addLog(table, `${p.name} wins $${amount} from the ${getPotName(potIndex).toLowerCase()} with ${handName}${runLabel}.`);
+        winners.push({ playerId: p.id, handName, amount, potIndex, cards, runIndex });
+      });
+    });
+  });
+  finishHand(table, winners, events);
+};
+
+// --- Voided Hands ---
+
+// Calls off a hand in progress: everyone gets back what they put in and the
+// table returns to IDLE. Used when a hand cannot be finished, e.g. after a
+// server restart.
+export const voidHand = (input: TableState, reason: string): EngineResult => {
+  const table = cloneTable(input);
+  const { players, gameState } = table;
+  const events: EngineEvent[] = [];
+  if (gameState.phase === GamePhase.IDLE || gameState.phase === GamePhase.SHOWDOWN) return { state: table, events };
+
+  const refunds: { seatIndex: number; amount: number }[] = [];
+  players.forEach((p, seatIndex) => {
+    if (!p) return;
+    if (p.totalBet > 0) refunds.push({ seatIndex, amount: p.totalBet });
+    p.chips += p.totalBet;
+    p.bet = 0;
+    p.totalBet = 0;
+    p.cards = [];
+    p.hasActed = false;
+    p.status = PlayerStatus.SITTING_OUT;
+  });
+
+  Object.assign(gameState, {
+    ...createInitialGameState(table.config, gameState.logs),
+    dealerIndex: gameState.dealerIndex,
+  });
+  addLog(table, `Hand voided: ${reason}. All bets returned.`);
+  events.push({ type: 'handVoided', refunds });
+  return { state: table, events };
+};
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card } from '../types';
+import { createDeck, isSameCard } from '../utils/poker';
+import { calculateEquity } from './equity';
+import { cards } from '../test/fixtures';
+
+// What is left of the deck once the hands and board are out.
+const restOfDeck = (...used: Card[][]) => createDeck().filter(c => !used.flat().some(u => isSameCard(u, c)));
+
+// Seeded, so the sampled tests never flake.
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+test('river outs are counted exactly on the turn', () => {
+  const hero = cards('Ah 3h');
+  const villain = cards('Js Jc');
+  const board = cards('2h 7h 9c Jd');
+  const [h, v] = calculateEquity(
+    [{ seatIndex: 0, cards: hero }, { seatIndex: 1, cards: villain }],
+    board,
+    restOfDeck(hero, villain, board)
+  );
+  // Seven hearts make the flush; the nine and jack of hearts fill the set up.
+  assert.equal(h.win, 7 / 44);
+  assert.equal(v.win, 37 / 44);
+  assert.equal(h.tie + v.tie, 0);
+});
+
+test('aces against kings preflop is close to the known 82/18', () => {
+  const aces = cards('As Ah');
+  const kings = cards('Ks Kh');
+  const [a, k] = calculateEquity(
+    [{ seatIndex: 0, cards: aces }, { seatIndex: 3, cards: kings }],
+    [],
+    restOfDeck(aces, kings),
+    'HOLDEM',
+    seededRandom(42)
+  );
+  assert.equal(a.seatIndex, 0);
+  assert.equal(k.seatIndex, 3);
+  assert.ok(Math.abs(a.win - 0.82) < 0.03, `aces won ${a.win}`);
+  assert.ok(Math.abs(k.win - 0.18) < 0.03, `kings won ${k.win}`);
+});
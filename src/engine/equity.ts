@@ -0,0 +1,93 @@
+import { Card, GameVariant, HandEquity } from '../types';
+import { scoreHand } from '../utils/fastEvaluator';
+import { isStud } from './config';
+
+// --- All-In Equity ---
+// Win/tie chances for hands that are all in, dealt out over the cards still
+// in the deck. Turn and river boards are enumerated exactly; earlier streets
+// are sampled. Stud hands each draw their own cards, always sampled.
+
+export const MONTE_CARLO_SAMPLES = 3000;
+
+// This runs on the server's event loop, so sampling stops at a fixed number
+// of five-card scorings per call. An Omaha hand costs one per two-hole-card,
+// three-board-card pick (60 with four cards), so a many-way Omaha all-in
+// takes far fewer samples than heads-up Hold'em.
+const SCORING_BUDGET = 60000;
+const MIN_SAMPLES = 100;
+
+const pairs = (n: number) => (n * (n - 1)) / 2;
+
+const getSampleCount = (hands: SeatHand[], variant: GameVariant) => {
+  const cost = hands.reduce((sum, h) => sum + (variant === 'OMAHA' ? pairs(h.cards.length) * 10 : 1), 0);
+  return Math.min(MONTE_CARLO_SAMPLES, Math.max(MIN_SAMPLES, Math.floor(SCORING_BUDGET / Math.max(1, cost))));
+};
+
+interface SeatHand {
+  seatIndex: number;
+  cards: Card[];
+}
+
+export const calculateEquity = (
+  hands: SeatHand[],
+  board: Card[],
+  deck: Card[],
+  variant: GameVariant = 'HOLDEM',
+  rng: () => number = Math.random
+): HandEquity[] => {
+  const missing = 5 - board.length;
+  const wins = new Array(hands.length).fill(0);
+  const ties = new Array(hands.length).fill(0);
+  let trials = 0;
+  const samples = getSampleCount(hands, variant);
+
+  // `dealt` holds each hand's own new cards (stud only).
+  const score = (runout: Card[], dealt: Card[][] = []) => {
+    const scores = hands.map((h, i) => scoreHand(dealt[i] ? h.cards.concat(dealt[i]) : h.cards, runout, variant));
+    const best = Math.max(...scores);
+    const winners = scores.filter(s => s === best).length;
+    scores.forEach((s, i) => {
+      if (s !== best) return;
+      if (winners === 1) wins[i]++;
+      else ties[i]++;
+    });
+    trials++;
+  };
+
+  if (isStud({ variant })) {
+    // Up to seven cards each, unless the deck runs short and seventh street
+    // becomes one shared card.
+    let needs = hands.map(h => Math.max(0, 7 - h.cards.length - board.length));
+    const shared = needs.reduce((sum, n) => sum + n, 0) > deck.length ? 1 : 0;
+    if (shared) needs = needs.map(n => Math.max(0, n - 1));
+    const draws = shared + needs.reduce((sum, n) => sum + n, 0);
+    if (draws === 0) {
+      score(board);
+    } else {
+      const pool = [...deck];
+      for (let s = 0; s < samples; s++) {
+        for (let i = 0; i < draws; i++) {
+          const j = i + Math.floor(rng() * (pool.length - i));
+          [pool[i], pool[j]] = [pool[j], pool[i]];
+        }
+        let next = shared;
+        score(board.concat(pool.slice(0, shared)), needs.map(n => pool.slice(next, (next += n))));
+      }
+    }
+  } else if (missing <= 1) {
+    if (missing === 0) score(board);
+    else deck.forEach(card => score([...board, card]));
+  } else {
+    const pool = [...deck];
+    for (let s = 0; s < samples; s++) {
+      // Partial Fisher-Yates: the first `missing` cards are a fresh sample
+      for (let i = 0; i < missing; i++) {
+        const j = i + Math.floor(rng() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+      }
+      score(board.concat(pool.slice(0, missing)));
+    }
+  }
+
+  return hands.map((h, i) => ({ seatIndex: h.seatIndex, win: wins[i] / trials, tie: ties[i] / trials }));
+};
@@ -0,0 +1,145 @@
+import { GamePhase, HandHistory, HandHistorySummary, HistoryAction, Player, PlayerStatus } from '../types';
+import { evaluateHand } from '../utils/poker';
+import { isStud } from './config';
+import { EngineEvent, TableState } from './engine';
+
+// --- Hand History ---
+// Built from the engine's results as they are applied: startHistory() on the
+// result that dealt the hand, then recordEvents() on every result after it
+// (including that first one). The history is a plain JSON object so the
+// server can persist it as-is.
+
+let lastHandId = 0;
+
+// Numeric and increasing, even across restarts.
+export const nextHandId = () => {
+  lastHandId = Math.max(lastHandId + 1, Date.now());
+  return String(lastHandId);
+};
+
+export const startHistory = (table: TableState, tableId: string, tableName: string): HandHistory => {
+  const { config, players, gameState } = table;
+  const dealt = players
+    .map((p, seatIndex) => ({ p, seatIndex }))
+    .filter((s): s is { p: Player; seatIndex: number } => !!s.p && s.p.cards.length > 0);
+  const sbIdx = players.findIndex(p => p?.isSmallBlind);
+  const bbIdx = players.findIndex(p => p?.isBigBlind);
+
+  // Forced bets are already in: antes went to the pot, blinds (or the stud
+  // bring-in) are bets.
+  const forced: HistoryAction[] = [];
+  const post = (seatIndex: number, type: HistoryAction['type'], amount: number, betTo: number) => {
+    const p = players[seatIndex]!;
+    if (amount > 0) forced.push({ phase: gameState.phase, seatIndex, type, amount, betTo, allIn: p.chips === 0 });
+  };
+  dealt.forEach(({ p, seatIndex }) => post(seatIndex, 'ante', p.totalBet - p.bet, 0));
+  if (isStud(config)) {
+    dealt.forEach(({ p, seatIndex }) => post(seatIndex, 'bringIn', p.bet, p.bet));
+  } else {
+    post(sbIdx, 'smallBlind', players[sbIdx]!.bet, players[sbIdx]!.bet);
+    post(bbIdx, 'bigBlind', players[bbIdx]!.bet, players[bbIdx]!.bet);
+  }
+
+  return {
+    handId: nextHandId(),
+    tableId,
+    tableName,
+    config,
+    startedAt: Date.now(),
+    endedAt: null,
+    dealerIndex: gameState.dealerIndex,
+    smallBlindIndex: sbIdx,
+    bigBlindIndex: bbIdx,
+    seats: dealt.map(({ p, seatIndex }) => ({
+      seatIndex,
+      playerId: p.id,
+      name: p.name,
+      stack: p.chips + p.totalBet,
+      cards: [...p.cards],
+    })),
+    actions: forced,
+    boards: [[]],
+    shown: [],
+    awards: [],
+    fairness: null,
+  };
+};
+
+const STREET_BY_BOARD_SIZE: Record<number, GamePhase> = {
+  0: GamePhase.PREFLOP,
+  3: GamePhase.FLOP,
+  4: GamePhase.TURN,
+  5: GamePhase.RIVER,
+};
+
+// Stud streets count the cards each player has been dealt, a shared
+// seventh-street card included.
+const STUD_STREET_BY_CARDS: Record<number, GamePhase> = {
+  3: GamePhase.THIRD_STREET,
+  4: GamePhase.FOURTH_STREET,
+  5: GamePhase.FIFTH_STREET,
+  6: GamePhase.SIXTH_STREET,
+  7: GamePhase.SEVENTH_STREET,
+};
+
+// Appends what `events` did to `history` (mutating it); `table` is the state
+// the events produced.
+export const recordEvents = (history: HandHistory, table: TableState, events: EngineEvent[]) => {
+  if (history.endedAt !== null) return;
+  const stud = isStud(history.config);
+  const phase = () =>
+    stud
+      ? STUD_STREET_BY_CARDS[Math.max(...history.seats.map(s => s.cards.length)) + history.boards[0].length]
+      : STREET_BY_BOARD_SIZE[history.boards[0].length];
+  const streetBet = () =>
+    history.actions
+      .filter(a => a.phase === phase())
+      .reduce((max, a) => Math.max(max, a.betTo), 0);
+
+  events.forEach(e => {
+    if (e.type === 'action') {
+      // An opening "raise" is a bet in history terms.
+      const type = e.action === 'raise' && streetBet() === 0 ? 'bet' : e.action;
+      history.actions.push({ phase: phase(), seatIndex: e.seatIndex, type, amount: e.amount, betTo: e.betTo, allIn: e.allIn });
+    } else if (e.type === 'uncalledBetReturned') {
+      history.actions.push({ phase: phase(), seatIndex: e.seatIndex, type: 'uncalledBetReturned', amount: e.amount, betTo: 0, allIn: false });
+    } else if (e.type === 'phaseChanged') {
+      history.boards = [table.gameState.communityCards, ...table.gameState.boards].map(b => [...b]);
+      if (stud) {
+        history.seats.forEach(s => {
+          const p = table.players[s.seatIndex];
+          if (p?.id === s.playerId) s.cards = [...p.cards];
+        });
+      }
+    } else if (e.type === 'handEnded') {
+      history.awards = e.winners;
+      history.endedAt = Date.now();
+      // Everyone still in turns their cards over when it goes to showdown.
+      if (e.winners.some(w => w.cards.length > 0)) {
+        history.shown = table.players
+          .map((p, seatIndex) => ({ p, seatIndex }))
+          .filter(({ p }) => p && (p.status === PlayerStatus.PLAYING || p.status === PlayerStatus.ALL_IN))
+          .map(({ p, seatIndex }) => ({ seatIndex, handName: evaluateHand(p!.cards, history.boards[0], history.config.variant).name }));
+      }
+    }
+  });
+};
+
+// A copy safe to hand to one player: their own cards and shown hands only,
+// plus the stud cards everyone saw face up.
+export const projectHistory = (history: HandHistory, viewerId: string | null): HandHistory => ({
+  ...history,
+  seats: history.seats.map(s =>
+    s.playerId === viewerId || history.shown.some(h => h.seatIndex === s.seatIndex)
+      ? s
+      : { ...s, cards: s.cards.filter(c => c.faceUp) }
+  ),
+});
+
+export const summarizeHistory = (history: HandHistory): HandHistorySummary => ({
+  handId: history.handId,
+  tableName: history.tableName,
+  startedAt: history.startedAt,
+  pot: history.awards.reduce((sum, w) => sum + w.amount, 0),
+  winners: Array.from(new Set(history.awards.map(w => history.seats.find(s => s.playerId === w.playerId)?.name ?? '?'))),
+});
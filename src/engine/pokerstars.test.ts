@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EngineResult, applyAction, nextPhase, startHand } from './engine';
+import { recordEvents, startHistory } from './history';
+import { formatHandHistory } from './pokerstars';
+import { seatPlayers, stackDeck } from '../test/fixtures';
+
+const EXPECTED = `PokerStars Hand #1:  Hold'em No Limit ($10/$20 USD) - 2024/06/01 12:00:00 UTC
+Table 'Test' 3-max Seat #1 is the button
+Seat 1: p0 ($1000 in chips)
+Seat 2: p1 ($1000 in chips)
+Seat 3: p2 ($1000 in chips)
+p1: posts small blind $10
+p2: posts big blind $20
+*** HOLE CARDS ***
+Dealt to p0 [Ah Ad]
+p0: raises $40 to $60
+p1: folds
+p2: calls $40
+*** FLOP *** [Qs Jh 4c]
+p2: checks
+p0: bets $100
+p2: calls $100
+*** TURN *** [Qs Jh 4c] [9d]
+p2: checks
+p0: checks
+*** RIVER *** [Qs Jh 4c 9d] [2c]
+p2: bets $200
+p0: calls $200
+*** SHOW DOWN ***
+p0: shows [Ah Ad] (One Pair, Aces, Queen kicker)
+p2: shows [Kh Kd] (One Pair, Kings, Queen kicker)
+p0 collected $730 from pot
+*** SUMMARY ***
+Total pot $730 | Rake $0
+Board [Qs Jh 4c 9d 2c]
+Seat 1: p0 (button) showed [Ah Ad] and won ($730) with One Pair, Aces, Queen kicker
+Seat 2: p1 (small blind) folded before Flop
+Seat 3: p2 (big blind) showed [Kh Kd] and lost with One Pair, Kings, Queen kicker`;
+
+test('a recorded hand exports as PokerStars text', () => {
+  const dealt = startHand(seatPlayers({}, [1000, 1000, 1000]), stackDeck('Ah Ad 7c 2d Kh Kd Qs Jh 4c 9d 2c'));
+  const history = { ...startHistory(dealt.state, 't1', 'Test'), handId: '1', startedAt: Date.UTC(2024, 5, 1, 12) };
+  let state = dealt.state;
+  const apply = (result: EngineResult) => {
+    recordEvents(history, result.state, result.events);
+    state = result.state;
+  };
+  apply(dealt);
+  apply(applyAction(state, 0, { type: 'raise', amount: 40 }));
+  apply(applyAction(state, 1, { type: 'fold' }));
+  apply(applyAction(state, 2, { type: 'call' }));
+  apply(nextPhase(state));
+  apply(applyAction(state, 2, { type: 'check' }));
+  apply(applyAction(state, 0, { type: 'raise', amount: 100 }));
+  apply(applyAction(state, 2, { type: 'call' }));
+  apply(nextPhase(state));
+  apply(applyAction(state, 2, { type: 'check' }));
+  apply(applyAction(state, 0, { type: 'check' }));
+  apply(nextPhase(state));
+  apply(applyAction(state, 2, { type: 'raise', amount: 200 }));
+  apply(applyAction(state, 0, { type: 'call' }));
+  apply(nextPhase(state));
+  assert.equal(formatHandHistory(history, 'p0'), EXPECTED);
+});
+
+test('only the hero and shown hands have their hole cards written out', () => {
+  const dealt = startHand(seatPlayers({}, [1000, 1000]), stackDeck('Ah Ad Kh Kd'));
+  const history = startHistory(dealt.state, 't1', 'Test');
+  recordEvents(history, dealt.state, dealt.events);
+  const folded = applyAction(dealt.state, 0, { type: 'fold' });
+  recordEvents(history, folded.state, folded.events);
+  assert.match(formatHandHistory(history, 'p1'), /Dealt to p1 \[Kh Kd\]/);
+  assert.doesNotMatch(formatHandHistory(history, 'p1'), /Ah Ad/);
+  assert.doesNotMatch(formatHandHistory(history, null), /Dealt to/);
+});
@@ -0,0 +1,216 @@
+import { Card, GamePhase, GameVariant, HandHistory, HistoryAction, Suit, TableConfig } from '../types';
+import { isStud } from './config';
+
+// --- PokerStars Text Export ---
+// Formats recorded hands the way PokerStars writes them, which is what
+// tracking software (HM3, PokerTracker, ...) knows how to import. Only the
+// hero's hole cards and hands shown down are written out (in stud, also the
+// cards everyone saw face up).
+
+const SUIT_LETTERS: Record<Suit, string> = {
+  [Suit.HEARTS]: 'h', [Suit.DIAMONDS]: 'd', [Suit.CLUBS]: 'c', [Suit.SPADES]: 's',
+};
+
+const formatCard = (c: Card) => `${c.rank === '10' ? 'T' : c.rank}${SUIT_LETTERS[c.suit]}`;
+const formatCards = (cards: Card[]) => `[${cards.map(formatCard).join(' ')}]`;
+const money = (amount: number) => `$${amount}`;
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+const formatDate = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}/${pad2(d.getUTCMonth() + 1)}/${pad2(d.getUTCDate())} ` +
+    `${pad2(d.getUTCHours())}:${pad2(d.getUTCMinutes())}:${pad2(d.getUTCSeconds())} UTC`;
+};
+
+const RUN_NAMES = ['FIRST', 'SECOND', 'THIRD'];
+const STREETS: { phase: GamePhase; name: string; size: number }[] = [
+  { phase: GamePhase.FLOP, name: 'FLOP', size: 3 },
+  { phase: GamePhase.TURN, name: 'TURN', size: 4 },
+  { phase: GamePhase.RIVER, name: 'RIVER', size: 5 },
+];
+// Stud streets by how many cards each player holds; seventh is the river.
+const STUD_STREETS: { phase: GamePhase; name: string; size: number }[] = [
+  { phase: GamePhase.THIRD_STREET, name: '3rd STREET', size: 3 },
+  { phase: GamePhase.FOURTH_STREET, name: '4th STREET', size: 4 },
+  { phase: GamePhase.FIFTH_STREET, name: '5th STREET', size: 5 },
+  { phase: GamePhase.SIXTH_STREET, name: '6th STREET', size: 6 },
+  { phase: GamePhase.SEVENTH_STREET, name: 'RIVER', size: 7 },
+];
+const FOLDED_ON: Partial<Record<GamePhase, string>> = {
+  [GamePhase.PREFLOP]: 'folded before Flop',
+  [GamePhase.FLOP]: 'folded on the Flop',
+  [GamePhase.TURN]: 'folded on the Turn',
+  [GamePhase.RIVER]: 'folded on the River',
+  [GamePhase.THIRD_STREET]: 'folded on the 3rd Street',
+  [GamePhase.FOURTH_STREET]: 'folded on the 4th Street',
+  [GamePhase.FIFTH_STREET]: 'folded on the 5th Street',
+  [GamePhase.SIXTH_STREET]: 'folded on the 6th Street',
+  [GamePhase.SEVENTH_STREET]: 'folded on the River',
+};
+
+const potName = (potIndex: number, potCount: number) =>
+  potCount === 1 ? 'pot' : potIndex === 0 ? 'main pot' : `side pot-${potIndex}`;
+
+const GAME_NAMES: Record<GameVariant, string> = {
+  HOLDEM: "Hold'em",
+  OMAHA: 'Omaha',
+  SHORT_DECK: "6+ Hold'em",
+  STUD: '7 Card Stud',
+  RAZZ: 'Razz',
+};
+
+// Limit games are named by their small and big bet rather than the blinds.
+const formatGame = (config: TableConfig) => {
+  const game = GAME_NAMES[config.variant] ?? GAME_NAMES.HOLDEM;
+  switch (config.bettingStructure) {
+    case 'FIXED_LIMIT':
+      return `${game} Limit (${money(config.bigBlind)}/${money(config.bigBlind * 2)} USD)`;
+    case 'POT_LIMIT':
+      return `${game} Pot Limit (${money(config.smallBlind)}/${money(config.bigBlind)} USD)`;
+    default:
+      return `${game} No Limit (${money(config.smallBlind)}/${money(config.bigBlind)} USD)`;
+  }
+};
+
+export const formatHandHistory = (history: HandHistory, heroId: string | null): string => {
+  const { config, seats, actions, boards, awards, shown } = history;
+  const stud = isStud(config);
+  const name = (seatIndex: number) => seats.find(s => s.seatIndex === seatIndex)?.name ?? `Seat ${seatIndex + 1}`;
+  const lines: string[] = [];
+
+  lines.push(
+    `PokerStars Hand #${history.handId}:  ${formatGame(config)} - ${formatDate(history.startedAt)}`,
+    `Table '${history.tableName}' ${config.seatCount}-max${stud ? '' : ` Seat #${history.dealerIndex + 1} is the button`}`
+  );
+  seats.forEach(s => lines.push(`Seat ${s.seatIndex + 1}: ${s.name} (${money(s.stack)} in chips)`));
+
+  const allIn = (a: HistoryAction) => (a.allIn ? ' and is all-in' : '');
+  const streetBets = new Map<GamePhase, number>();
+  const describe = (a: HistoryAction): string => {
+    const before = streetBets.get(a.phase) ?? 0;
+    streetBets.set(a.phase, Math.max(before, a.betTo));
+    switch (a.type) {
+      case 'ante': return `${name(a.seatIndex)}: posts the ante ${money(a.amount)}${allIn(a)}`;
+      case 'smallBlind': return `${name(a.seatIndex)}: posts small blind ${money(a.amount)}${allIn(a)}`;
+      case 'bigBlind': return `${name(a.seatIndex)}: posts big blind ${money(a.amount)}${allIn(a)}`;
+      case 'bringIn': return `${name(a.seatIndex)}: brings in for ${money(a.amount)}${allIn(a)}`;
+      case 'fold': return `${name(a.seatIndex)}: folds`;
+      case 'check': return `${name(a.seatIndex)}: checks`;
+      case 'call': return `${name(a.seatIndex)}: calls ${money(a.amount)}${allIn(a)}`;
+      case 'bet': return `${name(a.seatIndex)}: bets ${money(a.betTo)}${allIn(a)}`;
+      case 'raise': return `${name(a.seatIndex)}: raises ${money(a.betTo - before)} to ${money(a.betTo)}${allIn(a)}`;
+      case 'uncalledBetReturned': return `Uncalled bet (${money(a.amount)}) returned to ${name(a.seatIndex)}`;
+    }
+  };
+  // Blinds and antes come before the hole cards are mentioned.
+  const forced = actions.filter(a => a.type === 'ante' || a.type === 'smallBlind' || a.type === 'bigBlind');
+  const streetActions = (phase: GamePhase) =>
+    actions.filter(a => a.phase === phase && !forced.includes(a)).forEach(a => lines.push(describe(a)));
+  forced.forEach(a => lines.push(describe(a)));
+  const hero = seats.find(s => s.playerId === heroId);
+  if (!stud) {
+    lines.push('*** HOLE CARDS ***');
+    if (hero && hero.cards.length > 0) lines.push(`Dealt to ${hero.name} ${formatCards(hero.cards)}`);
+    actions.filter(a => a.phase === GamePhase.PREFLOP && !forced.includes(a)).forEach(a => lines.push(describe(a)));
+  }
+
+  // Stud: each street lists what everyone still in was dealt, the earlier
+  // cards first. Others' down cards are left out, so their river is too;
+  // a shared river card goes on the board instead.
+  const shared = stud ? boards[0].length : 0;
+  const dealt = Math.max(...seats.map(s => s.cards.length)) + shared;
+  const streetSize = (phase: GamePhase) => STUD_STREETS.find(s => s.phase === phase)?.size ?? 0;
+  (stud ? STUD_STREETS : []).forEach(({ phase, name: street, size }) => {
+    if (dealt < size && !actions.some(a => a.phase === phase)) return;
+    lines.push(size === 7 && shared > 0 ? `*** ${street} *** ${formatCards(boards[0])}` : `*** ${street} ***`);
+    seats.forEach(s => {
+      if (size === 7 && shared > 0) return;
+      if (actions.some(a => a.seatIndex === s.seatIndex && a.type === 'fold' && streetSize(a.phase) < size)) return;
+      const cards = s === hero ? s.cards.slice(0, size) : size < 7 ? s.cards.filter(c => c.faceUp).slice(0, size - 2) : [];
+      if (cards.length === 0 || (s === hero && cards.length < size)) return;
+      lines.push(
+        size === 3
+          ? `Dealt to ${s.name} ${formatCards(cards)}`
+          : `Dealt to ${s.name} ${formatCards(cards.slice(0, -1))} ${formatCards(cards.slice(-1))}`
+      );
+    });
+    streetActions(phase);
+  });
+
+  // Boards split where the hand was run more than once.
+  const runs = boards.length;
+  const firstDifference = runs > 1 ? boards[0].findIndex((c, i) => formatCard(c) !== formatCard(boards[1][i])) : -1;
+  const splitAt = firstDifference === -1 ? boards[0].length : firstDifference;
+  (stud ? [] : STREETS).forEach(({ phase, name: street, size }) => {
+    if (boards[0].length < size) return;
+    const heading = (board: Card[], label: string) =>
+      size === 3
+        ? `*** ${label}${street} *** ${formatCards(board.slice(0, 3))}`
+        : `*** ${label}${street} *** ${formatCards(board.slice(0, size - 1))} ${formatCards(board.slice(size - 1, size))}`;
+    if (runs === 1 || size <= splitAt) {
+      lines.push(heading(boards[0], ''));
+      streetActions(phase);
+    } else {
+      boards.forEach((board, run) => lines.push(heading(board, `${RUN_NAMES[run]} `)));
+    }
+  });
+
+  // Showdown and pot awards, per run.
+  const potCount = new Set(awards.map(w => w.potIndex)).size;
+  const seatOf = (playerId: string) => seats.find(s => s.playerId === playerId)!;
+  if (shown.length > 0) {
+    boards.forEach((_, run) => {
+      lines.push(runs > 1 ? `*** ${RUN_NAMES[run]} SHOW DOWN ***` : '*** SHOW DOWN ***');
+      if (run === 0) {
+        shown.forEach(h => {
+          const s = seats.find(seat => seat.seatIndex === h.seatIndex)!;
+          lines.push(`${s.name}: shows ${formatCards(s.cards)} (${h.handName})`);
+        });
+      }
+      awards.filter(w => w.runIndex === run).forEach(w => {
+        lines.push(`${seatOf(w.playerId).name} collected ${money(w.amount)} from ${potName(w.potIndex, potCount)}`);
+      });
+    });
+  } else {
+    awards.forEach(w => lines.push(`${seatOf(w.playerId).name} collected ${money(w.amount)} from pot`));
+    const winner = awards[0] && seatOf(awards[0].playerId);
+    if (winner) lines.push(`${winner.name}: doesn't show hand`);
+  }
+
+  // Summary
+  const total = awards.reduce((sum, w) => sum + w.amount, 0);
+  const potTotals = Array.from(new Set(awards.map(w => w.potIndex))).sort((a, b) => a - b)
+    .map(i => awards.filter(w => w.potIndex === i).reduce((sum, w) => sum + w.amount, 0));
+  lines.push('*** SUMMARY ***');
+  lines.push(
+    potTotals.length > 1
+      ? `Total pot ${money(total)} Main pot ${money(potTotals[0])}. ${potTotals.slice(1).map((amount, i) => `Side pot-${i + 1} ${money(amount)}.`).join(' ')} | Rake $0`
+      : `Total pot ${money(total)} | Rake $0`
+  );
+  boards.forEach((board, run) => {
+    if (board.length > 0) lines.push(`${runs > 1 ? `${RUN_NAMES[run]} ` : ''}Board ${formatCards(board)}`);
+  });
+  seats.forEach(s => {
+    // Heads-up the button is also the small blind.
+    const position = (!stud && s.seatIndex === history.dealerIndex ? ' (button)' : '')
+      + (s.seatIndex === history.smallBlindIndex ? ' (small blind)' : '')
+      + (s.seatIndex === history.bigBlindIndex ? ' (big blind)' : '');
+    const won = awards.filter(w => w.playerId === s.playerId).reduce((sum, w) => sum + w.amount, 0);
+    const fold = actions.find(a => a.seatIndex === s.seatIndex && a.type === 'fold');
+    const showdown = shown.find(h => h.seatIndex === s.seatIndex);
+    let outcome: string;
+    if (fold) outcome = FOLDED_ON[fold.phase] ?? 'folded';
+    else if (showdown) {
+      outcome = won > 0
+        ? `showed ${formatCards(s.cards)} and won (${money(won)}) with ${showdown.handName}`
+        : `showed ${formatCards(s.cards)} and lost with ${showdown.handName}`;
+    } else outcome = won > 0 ? `collected (${money(won)})` : 'mucked';
+    lines.push(`Seat ${s.seatIndex + 1}: ${s.name}${position} ${outcome}`);
+  });
+
+  return lines.join('\n');
+};
+
+// Hands are separated by blank lines, as in PokerStars' own files.
+export const formatHandHistories = (histories: HandHistory[], heroId: string | null) =>
+  histories.map(h => formatHandHistory(h, heroId)).join('\n\n\n') + '\n';
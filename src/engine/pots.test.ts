@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerStatus } from '../types';
+import { buildPots, splitPot } from './pots';
+import { createPlayer } from '../test/fixtures';
+
+const contributed = (totalBet: number, status = PlayerStatus.ALL_IN) => ({ ...createPlayer('p', 0), totalBet, status });
+
+test('buildPots gives each all-in stack a pot it can win', () => {
+  const pots = buildPots([contributed(100), contributed(300), null, contributed(500, PlayerStatus.PLAYING)]);
+  assert.deepEqual(pots, [
+    { amount: 300, eligibleSeats: [0, 1, 3] },
+    { amount: 400, eligibleSeats: [1, 3] },
+    { amount: 200, eligibleSeats: [3] },
+  ]);
+});
+
+test('buildPots keeps folded chips in the pots without making the folder eligible', () => {
+  const pots = buildPots([contributed(100), contributed(250, PlayerStatus.FOLDED), contributed(300, PlayerStatus.PLAYING)]);
+  assert.deepEqual(pots, [
+    { amount: 300, eligibleSeats: [0, 2] },
+    { amount: 350, eligibleSeats: [2] },
+  ]);
+});
+
+test('splitPot gives odd chips to the winners first after the dealer', () => {
+  assert.deepEqual(splitPot(101, [1, 4], 3, 6), [{ seat: 4, amount: 51 }, { seat: 1, amount: 50 }]);
+  assert.deepEqual(splitPot(100, [0, 2, 5], 0, 6), [
+    { seat: 2, amount: 34 }, { seat: 5, amount: 33 }, { seat: 0, amount: 33 },
+  ]);
+});
@@ -0,0 +1,52 @@
+import { Player, PlayerStatus, Pot } from '../types';
+
+// --- Pot Construction ---
+// Pots are rebuilt from each player's total contribution for the hand, so a
+// short all-in stack can only ever win what it actually covered.
+
+export const getPotName = (potIndex: number) => (potIndex === 0 ? 'Main pot' : `Side pot ${potIndex}`);
+
+const isContesting = (p: Player | null): p is Player =>
+  !!p && (p.status === PlayerStatus.PLAYING || p.status === PlayerStatus.ALL_IN);
+
+export const buildPots = (players: (Player | null)[]): Pot[] => {
+  const levels = Array.from(new Set(players.filter(isContesting).map(p => p.totalBet)))
+    .filter(level => level > 0)
+    .sort((a, b) => a - b);
+
+  const pots: Pot[] = [];
+  let prevLevel = 0;
+  levels.forEach(level => {
+    let amount = 0;
+    players.forEach(p => {
+      if (!p) return;
+      amount += Math.max(0, Math.min(p.totalBet, level) - prevLevel);
+    });
+    const eligibleSeats = players
+      .map((p, i) => (isContesting(p) && p.totalBet >= level ? i : -1))
+      .filter(i => i !== -1);
+    pots.push({ amount, eligibleSeats });
+    prevLevel = level;
+  });
+
+  // Chips from folded players above the last contested level go to the top pot.
+  const leftover = players.reduce((sum, p) => sum + Math.max(0, (p?.totalBet || 0) - prevLevel), 0);
+  if (leftover > 0 && pots.length > 0) pots[pots.length - 1].amount += leftover;
+
+  return pots;
+};
+
+// Splits `amount` among `seats`; odd chips go one at a time to the winners
+// closest to the left of the dealer.
+export const splitPot = (amount: number, seats: number[], dealerIndex: number, seatCount: number) => {
+  const ordered = [...seats].sort(
+    (a, b) => ((a - dealerIndex - 1 + seatCount) % seatCount) - ((b - dealerIndex - 1 + seatCount) % seatCount)
+  );
+  const share = Math.floor(amount / ordered.length);
+  let remainder = amount - share * ordered.length;
+  return ordered.map(seat => {
+    const extra = remainder > 0 ? 1 : 0;
+    remainder -= extra;
+    return { seat, amount: share + extra };
+  });
+};
@@ -0,0 +1,25 @@
+import { GamePhase, Player, PlayerStatus, PublicTableState } from '../types';
+import { TableState } from './engine';
+
+// --- Per-Viewer Projection ---
+// What one connection is allowed to see: its own hole cards, opponents'
+// cards only once they are tabled (all-in run-out or showdown), never the deck.
+// Stud cards dealt face up are seen by everyone until their owner folds.
+
+const isTabled = (table: TableState, p: Player) => {
+  if (table.gameState.equity.some(e => table.players[e.seatIndex] === p)) return true;
+  if (table.gameState.phase !== GamePhase.SHOWDOWN) return false;
+  const contested = table.players.filter(o => o && (o.status === PlayerStatus.PLAYING || o.status === PlayerStatus.ALL_IN));
+  // A player who wins uncontested never has to show.
+  return contested.length > 1 && contested.includes(p);
+};
+
+export const projectTable = (table: TableState, viewerId: Player['id'] | null): PublicTableState => {
+  const { deck: _deck, ...gameState } = table.gameState;
+  const players = table.players.map(p => {
+    if (!p) return null;
+    if (p.id === viewerId || isTabled(table, p)) return p;
+    return { ...p, cards: p.cards.map(c => (c.faceUp && p.status !== PlayerStatus.FOLDED ? c : null)) };
+  });
+  return { config: table.config, players, gameState };
+};
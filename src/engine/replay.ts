@@ -0,0 +1,189 @@
+import { Card, GamePhase, HandHistory, HistoryAction, HistorySeat, PlayerStatus, PotAward, PublicPlayer } from '../types';
+import { getHoleCardCount, isStud } from './config';
+
+// --- Hand Replay ---
+// Turns a recorded hand into the sequence of table snapshots a replay steps
+// through: the deal, every action, each street and the pot awards.
+
+export interface ReplayFrame {
+  players: (PublicPlayer | null)[]; // Indexed by seat; unknown hole cards are null
+  boards: Card[][]; // One row per distinct run dealt so far
+  pot: number; // Chips already gathered into the middle
+  currentSeat: number; // Seat that just acted, -1 between actions
+  description: string;
+  winners: PotAward[]; // Only on the final frame
+}
+
+const STREETS: { phase: GamePhase; name: string; size: number }[] = [
+  { phase: GamePhase.FLOP, name: 'Flop', size: 3 },
+  { phase: GamePhase.TURN, name: 'Turn', size: 4 },
+  { phase: GamePhase.RIVER, name: 'River', size: 5 },
+];
+
+// Stud streets, by how many cards each player holds once they are dealt.
+const STUD_STREETS: { phase: GamePhase; name: string; size: number }[] = [
+  { phase: GamePhase.FOURTH_STREET, name: 'Fourth street', size: 4 },
+  { phase: GamePhase.FIFTH_STREET, name: 'Fifth street', size: 5 },
+  { phase: GamePhase.SIXTH_STREET, name: 'Sixth street', size: 6 },
+  { phase: GamePhase.SEVENTH_STREET, name: 'Seventh street', size: 7 },
+];
+
+const formatCards = (cards: Card[]) => cards.map(c => `${c.rank}${c.suit}`).join(' ');
+
+// Runs are shown as one board until they actually differ.
+const boardsAt = (boards: Card[][], size: number) => {
+  const rows: Card[][] = [];
+  boards.forEach(board => {
+    const row = board.slice(0, size);
+    if (!rows.some(r => formatCards(r) === formatCards(row))) rows.push(row);
+  });
+  return rows;
+};
+
+// A stud seat's first `count` cards as the viewer saw them. Unseen seats
+// only recorded their up cards, which are the third to sixth dealt.
+const studCardsAt = (history: HandHistory, seat: HistorySeat, count: number, visible: boolean): (Card | null)[] => {
+  if (visible) return seat.cards.slice(0, count);
+  const ups = seat.cards;
+  const fold = history.actions.find(a => a.seatIndex === seat.seatIndex && a.type === 'fold');
+  const dealt = ups.length < 4 ? ups.length + 2 : fold && fold.phase !== GamePhase.SEVENTH_STREET ? 6 : 7;
+  return Array.from({ length: Math.min(count, dealt) }, (_, i) => (i >= 2 && i <= 5 ? ups[i - 2] ?? null : null));
+};
+
+export const buildReplayFrames = (history: HandHistory, viewerId: string | null): ReplayFrame[] => {
+  const stud = isStud(history.config);
+  const players: (PublicPlayer | null)[] = Array(history.config.seatCount).fill(null);
+  history.seats.forEach(s => {
+    const visible = s.playerId === viewerId && s.cards.length > 0;
+    players[s.seatIndex] = {
+      id: s.playerId,
+      name: s.name,
+      chips: s.stack,
+      bet: 0,
+      totalBet: 0,
+      status: PlayerStatus.PLAYING,
+      cards: stud
+        ? studCardsAt(history, s, 3, visible)
+        : visible ? [...s.cards] : Array(getHoleCardCount(history.config)).fill(null),
+      isDealer: !stud && s.seatIndex === history.dealerIndex,
+      isSmallBlind: s.seatIndex === history.smallBlindIndex,
+      isBigBlind: s.seatIndex === history.bigBlindIndex,
+      hasActed: false,
+      isDisconnected: false,
+      isSittingOut: false,
+      timeBank: 0,
+      botStyle: null,
+    };
+  });
+
+  const frames: ReplayFrame[] = [];
+  let boards: Card[][] = [[]];
+  let pot = 0;
+  const name = (seatIndex: number) => players[seatIndex]?.name ?? `Seat ${seatIndex + 1}`;
+  const snapshot = (description: string, currentSeat = -1, winners: PotAward[] = []) => {
+    frames.push({ players: structuredClone(players), boards, pot, currentSeat, description, winners });
+  };
+  const collectBets = () => {
+    players.forEach(p => {
+      if (!p) return;
+      pot += p.bet;
+      p.bet = 0;
+    });
+  };
+
+  const apply = (a: HistoryAction) => {
+    const p = players[a.seatIndex]!;
+    switch (a.type) {
+      case 'ante':
+        p.chips -= a.amount;
+        p.totalBet += a.amount;
+        pot += a.amount;
+        break;
+      case 'fold':
+        p.status = PlayerStatus.FOLDED;
+        break;
+      case 'check':
+        break;
+      case 'uncalledBetReturned':
+        p.chips += a.amount;
+        p.bet -= a.amount;
+        p.totalBet -= a.amount;
+        break;
+      default:
+        p.chips -= a.amount;
+        p.bet = a.betTo;
+        p.totalBet += a.amount;
+    }
+    if (a.allIn) p.status = PlayerStatus.ALL_IN;
+    snapshot(describeAction(a, name(a.seatIndex)), a.seatIndex);
+  };
+
+  snapshot(`Hand #${history.handId}: cards are dealt`);
+  history.actions.filter(a => a.phase === (stud ? GamePhase.THIRD_STREET : GamePhase.PREFLOP)).forEach(apply);
+  if (stud) {
+    // A shared seventh-street card takes the place of everyone's own.
+    const shared = history.boards[0].length;
+    const dealt = Math.max(...history.seats.map(s => s.cards.length)) + shared;
+    STUD_STREETS.forEach(({ phase, name: street, size }) => {
+      if (dealt < size && !history.actions.some(a => a.phase === phase)) return;
+      collectBets();
+      history.seats.forEach(s => {
+        const visible = s.playerId === viewerId && s.cards.length > 0;
+        players[s.seatIndex]!.cards = studCardsAt(history, s, size - (size === 7 ? shared : 0), visible);
+      });
+      if (size === 7 && shared > 0) boards = [[...history.boards[0]]];
+      snapshot(size === 7 && shared > 0 ? `${street}: shared card ${formatCards(boards[0])}` : street);
+      history.actions.filter(a => a.phase === phase).forEach(apply);
+    });
+  }
+  (stud ? [] : STREETS).forEach(({ phase, name: street, size }) => {
+    if (history.boards[0].length < size) return;
+    collectBets();
+    boards = boardsAt(history.boards, size);
+    snapshot(`${street}: ${boards.map(formatCards).join(' / ')}`);
+    history.actions.filter(a => a.phase === phase).forEach(apply);
+  });
+  collectBets();
+
+  if (history.shown.length > 0) {
+    history.shown.forEach(({ seatIndex }) => {
+      const seat = history.seats.find(s => s.seatIndex === seatIndex);
+      const p = players[seatIndex];
+      if (seat && p && seat.cards.length > 0) p.cards = [...seat.cards];
+    });
+    boards = history.boards.map(b => [...b]);
+    snapshot(`Showdown: ${history.shown.map(h => `${name(h.seatIndex)} shows ${h.handName}`).join(', ')}`);
+  }
+
+  history.awards.forEach(w => {
+    const p = players.find(pl => pl?.id === w.playerId);
+    if (p) p.chips += w.amount;
+  });
+  pot = 0;
+  players.forEach(p => {
+    if (p) p.totalBet = 0;
+  });
+  const seatOf = (playerId: string) => players.findIndex(p => p?.id === playerId);
+  snapshot(
+    history.awards.map(w => `${name(seatOf(w.playerId))} wins $${w.amount}${w.handName ? ` (${w.handName})` : ''}`).join(', '),
+    -1,
+    history.awards
+  );
+  return frames;
+};
+
+const describeAction = (a: HistoryAction, player: string) => {
+  const allIn = a.allIn ? ' (all-in)' : '';
+  switch (a.type) {
+    case 'ante': return `${player} posts ante $${a.amount}${allIn}`;
+    case 'smallBlind': return `${player} posts small blind $${a.amount}${allIn}`;
+    case 'bigBlind': return `${player} posts big blind $${a.amount}${allIn}`;
+    case 'bringIn': return `${player} brings in for $${a.amount}${allIn}`;
+    case 'fold': return `${player} folds`;
+    case 'check': return `${player} checks`;
+    case 'call': return `${player} calls $${a.amount}${allIn}`;
+    case 'bet': return `${player} bets $${a.betTo}${allIn}`;
+    case 'raise': return `${player} raises to $${a.betTo}${allIn}`;
+    case 'uncalledBetReturned': return `$${a.amount} uncalled bet returned to ${player}`;
+  }
+};
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HandHistory, PlayerStats } from '../types';
+import { applyHandToStats, createStats, summarizeStats } from './stats';
+import { recordHand, seatPlayers, stackDeck } from '../test/fixtures';
+
+const table = () => seatPlayers({}, [1000, 1000, 1000]);
+const deck = () => stackDeck('Ah Ad 7c 2d Kh Kd Qs Jh 4c 9d 2c');
+
+// Folds each history into the running stats, keyed by player id.
+const tally = (...histories: HandHistory[]) => {
+  const stats = new Map<string, PlayerStats>();
+  histories.forEach(h =>
+    applyHandToStats(h, (id, name) => stats.get(id) ?? createStats(id, name)).forEach(s => stats.set(s.playerId, s))
+  );
+  return stats;
+};
+
+test('a raise and a 3-bet count towards VPIP, PFR and 3-bet', () => {
+  const stats = tally(recordHand(table(), deck(), [[0, 'raise', 40], [1, 'raise', 160], [2, 'fold'], [0, 'fold']]));
+  const [p0, p1, p2] = ['p0', 'p1', 'p2'].map(id => stats.get(id)!);
+  assert.deepEqual([p0.vpip, p0.pfr, p0.threeBetChances], [1, 1, 0]);
+  assert.deepEqual([p1.vpip, p1.pfr, p1.threeBetChances, p1.threeBets], [1, 1, 1, 1]);
+  assert.deepEqual([p2.vpip, p2.pfr, p2.threeBetChances], [0, 0, 0]);
+  assert.deepEqual([p0.net, p1.net, p2.net], [-60, 80, -20]);
+});
+
+test('blinds and a big-blind check are not voluntary', () => {
+  const limped = recordHand(table(), deck(), [[0, 'call'], [1, 'fold'], [2, 'check'], 'deal', [2, 'check'], [0, 'check']]);
+  const folded = recordHand(table(), deck(), [[0, 'fold'], [1, 'fold']]);
+  const stats = tally(limped, folded);
+  const summary = (id: string) => summarizeStats(stats.get(id)!);
+  assert.deepEqual([stats.get('p0')!.hands, summary('p0').vpip, summary('p0').pfr], [2, 50, 0]);
+  assert.deepEqual([summary('p1').vpip, summary('p2').vpip], [0, 0]);
+  assert.deepEqual([stats.get('p0')!.sawFlop, stats.get('p1')!.sawFlop, stats.get('p2')!.sawFlop], [1, 0, 1]);
+});
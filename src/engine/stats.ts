@@ -0,0 +1,87 @@
+import { GamePhase, HandHistory, PlayerStats } from '../types';
+import { isStud } from './config';
+
+// --- Player Statistics ---
+// Counters are folded in from each finished hand's history, so the numbers
+// come from exactly the actions that were played.
+
+export const createStats = (playerId: string, name: string): PlayerStats => ({
+  playerId,
+  name,
+  hands: 0,
+  vpip: 0,
+  pfr: 0,
+  threeBetChances: 0,
+  threeBets: 0,
+  aggressiveActions: 0,
+  calls: 0,
+  sawFlop: 0,
+  wentToShowdown: 0,
+  wonAtShowdown: 0,
+  net: 0,
+});
+
+const FORCED = ['ante', 'smallBlind', 'bigBlind', 'bringIn'];
+
+// Returns updated copies of the stats of everyone dealt into the hand. In
+// stud, third street counts as preflop and fourth street as the flop.
+export const applyHandToStats = (
+  history: HandHistory,
+  getStats: (playerId: string, name: string) => PlayerStats
+): PlayerStats[] => {
+  const stud = isStud(history.config);
+  const firstStreet = stud ? GamePhase.THIRD_STREET : GamePhase.PREFLOP;
+  const flopSeen = stud
+    ? Math.max(...history.seats.map(s => s.cards.length)) + history.boards[0].length >= 4
+    : history.boards[0].length >= 3;
+
+  // Preflop raises so far, to spot who faced exactly one (a 3-bet chance).
+  let preflopRaises = 0;
+  const facedOneRaise = new Set<number>();
+  const threeBet = new Set<number>();
+  history.actions.forEach(a => {
+    if (a.phase !== firstStreet || FORCED.includes(a.type) || a.type === 'uncalledBetReturned') return;
+    if (preflopRaises === 1 && !facedOneRaise.has(a.seatIndex)) {
+      facedOneRaise.add(a.seatIndex);
+      if (a.type === 'raise' || a.type === 'bet') threeBet.add(a.seatIndex);
+    }
+    if (a.type === 'raise' || a.type === 'bet') preflopRaises++;
+  });
+
+  return history.seats.map(seat => {
+    const stats = { ...getStats(seat.playerId, seat.name), name: seat.name };
+    const own = history.actions.filter(a => a.seatIndex === seat.seatIndex);
+    const preflop = own.filter(a => a.phase === firstStreet);
+    const postflop = own.filter(a => a.phase !== firstStreet);
+    const foldedPreflop = preflop.some(a => a.type === 'fold');
+    const showedDown = history.shown.some(h => h.seatIndex === seat.seatIndex);
+
+    const put = own.reduce((sum, a) => sum + (a.type === 'uncalledBetReturned' ? -a.amount : a.type === 'fold' ? 0 : a.amount), 0);
+    const won = history.awards.filter(w => w.playerId === seat.playerId).reduce((sum, w) => sum + w.amount, 0);
+
+    stats.hands++;
+    if (preflop.some(a => a.type === 'call' || a.type === 'bet' || a.type === 'raise')) stats.vpip++;
+    if (preflop.some(a => a.type === 'bet' || a.type === 'raise')) stats.pfr++;
+    if (facedOneRaise.has(seat.seatIndex)) stats.threeBetChances++;
+    if (threeBet.has(seat.seatIndex)) stats.threeBets++;
+    stats.aggressiveActions += postflop.filter(a => a.type === 'bet' || a.type === 'raise').length;
+    stats.calls += postflop.filter(a => a.type === 'call').length;
+    if (flopSeen && !foldedPreflop) stats.sawFlop++;
+    if (showedDown) stats.wentToShowdown++;
+    if (showedDown && won > 0) stats.wonAtShowdown++;
+    stats.net += won - put;
+    return stats;
+  });
+};
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+// The figures players actually read, as whole percentages.
+export const summarizeStats = (s: PlayerStats) => ({
+  vpip: percent(s.vpip, s.hands),
+  pfr: percent(s.pfr, s.hands),
+  threeBet: percent(s.threeBets, s.threeBetChances),
+  aggression: s.calls > 0 ? Math.round((s.aggressiveActions / s.calls) * 10) / 10 : s.aggressiveActions, // (bets + raises) / calls
+  wentToShowdown: percent(s.wentToShowdown, s.sawFlop),
+  wonAtShowdown: percent(s.wonAtShowdown, s.wentToShowdown),
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TournamentConfig } from '../types';
+import { TableState, applyAction, startHand } from './engine';
+import {
+  DEFAULT_TOURNAMENT_CONFIG,
+  createTournamentConfig,
+  createTournamentState,
+  getMttPayouts,
+  getNextBigBlindSeat,
+  getPrizes,
+  planTableBalance,
+  recordEliminations,
+} from './tournament';
+import { createPlayer, seatPlayers } from '../test/fixtures';
+
+const tournament = (payouts: number[], prizePool: number) => ({
+  ...createTournamentState({ ...DEFAULT_TOURNAMENT_CONFIG, payouts }),
+  status: 'RUNNING' as const,
+  prizePool,
+});
+
+test('createTournamentConfig treats null and non-object input as no input', () => {
+  const defaults = createTournamentConfig({}, 9);
+  assert.deepEqual(createTournamentConfig(null, 9), defaults);
+  assert.deepEqual(createTournamentConfig('big' as unknown as Partial<TournamentConfig>, 9), defaults);
+  assert.deepEqual(createTournamentConfig({ payouts: [60, 30, 10] }, 2).payouts, [100]);
+});
+
+test('getPrizes pays out the whole pool, odd chips to the winner', () => {
+  [[100], [65, 35], [50, 30, 20]].forEach(payouts => {
+    [0, 1, 299, 1000, 1001].forEach(pool => {
+      const prizes = getPrizes(tournament(payouts, pool));
+      assert.equal(prizes.reduce((sum, p) => sum + p, 0), pool);
+    });
+  });
+  assert.deepEqual(getPrizes(tournament([50, 30, 20], 299)), [151, 89, 59]);
+});
+
+test('players busting in the same hand finish in order of their starting stacks', () => {
+  const t = tournament([50, 30, 20], 1000);
+  const players = [createPlayer('p0', 0), createPlayer('p1', 0), createPlayer('p2', 2000), createPlayer('p3', 1000)];
+  const startingStacks = new Map([['p0', 500], ['p1', 300], ['p2', 1200], ['p3', 1000]]);
+  const after = recordEliminations(t, players, startingStacks);
+  assert.deepEqual(after.finishes.map(f => [f.playerId, f.position, f.prize]), [['p1', 4, 0], ['p0', 3, 200]]);
+  assert.equal(after.status, 'RUNNING');
+
+  players[3] = createPlayer('p3', 0);
+  const end = recordEliminations(after, players, startingStacks);
+  assert.deepEqual(end.finishes.slice(2).map(f => [f.playerId, f.position, f.prize]), [['p3', 2, 300], ['p2', 1, 500]]);
+  assert.equal(end.status, 'FINISHED');
+});
+
+test('players still in at other tables keep a bust from winning the tournament', () => {
+  const t = tournament([100], 300);
+  const players = [createPlayer('p0', 0), createPlayer('p1', 3000)];
+  const after = recordEliminations(t, players, new Map(), 5);
+  assert.deepEqual(after.finishes.map(f => [f.playerId, f.position]), [['p0', 7]]);
+  assert.equal(after.status, 'RUNNING');
+});
+
+// --- Multi-Table Tournaments ---
+
+test('MTT payouts add up to 100% and the prizes to the whole pool', () => {
+  for (let entrants = 0; entrants <= 200; entrants++) {
+    const payouts = getMttPayouts(entrants);
+    assert.equal(payouts.reduce((sum, p) => sum + p, 0), 100, `${entrants} entrants`);
+    assert.ok(payouts.length <= Math.max(1, entrants - 1), `${entrants} entrants`);
+    const prizePool = entrants * 37;
+    const prizes = getPrizes({ ...tournament(payouts, prizePool), entrants });
+    assert.equal(prizes.reduce((sum, p) => sum + p, 0), prizePool, `${entrants} entrants`);
+  }
+});
+
+const balance = (counts: number[], seatCount = 9, busy: number[] = []) => {
+  const { breaking, moves } = planTableBalance(
+    counts.map((playerCount, i) => ({ id: `t${i}`, playerCount, canMoveFrom: !busy.includes(i) })),
+    seatCount
+  );
+  const after = [...counts];
+  moves.forEach(({ from, to }) => {
+    after[Number(from.slice(1))]--;
+    after[Number(to.slice(1))]++;
+  });
+  return { breaking, moves, after };
+};
+
+test('planTableBalance moves players from the biggest tables to the shortest', () => {
+  const { breaking, moves, after } = balance([9, 5, 8]);
+  assert.equal(breaking, null);
+  assert.equal(moves.length, 2);
+  assert.ok(Math.max(...after) - Math.min(...after) <= 1);
+  assert.deepEqual(balance([7, 6, 6]).moves, []);
+});
+
+test('planTableBalance breaks the shortest table once the others can seat its players', () => {
+  const { breaking, moves, after } = balance([6, 6, 3]);
+  assert.equal(breaking, 't2');
+  assert.ok(moves.every(m => m.from === 't2'));
+  assert.deepEqual([...after].sort(), [0, 7, 8]);
+  assert.equal(after[2], 0);
+});
+
+test('planTableBalance leaves tables still in a hand alone', () => {
+  assert.deepEqual(balance([9, 5], 9, [0]).moves, []);
+  assert.equal(balance([6, 6, 3], 9, [2]).breaking, null);
+  assert.ok(balance([9, 5, 8], 9, [0]).moves.every(m => m.from !== 't0'));
+});
+
+const foldOut = (table: TableState) => {
+  let state = table;
+  while (state.gameState.currentPlayerIndex !== -1) {
+    state = applyAction(state, state.gameState.currentPlayerIndex, { type: 'fold' }).state;
+  }
+  return state;
+};
+
+test('balancing moves the player due the big blind, so nobody posts it twice', () => {
+  const layouts = [[0, 1], [0, 1, 2], [0, 2, 3, 5], [0, 1, 2, 3, 4, 5]];
+  layouts.forEach(seats => {
+    let table = seatPlayers({}, [1000, 1000, 1000, 1000, 1000, 1000]);
+    table.players = table.players.map((p, i) => (seats.includes(i) ? p : null));
+    for (let hand = 0; hand < seats.length; hand++) {
+      table = foldOut(startHand(table).state);
+      const bigBlind = table.players.findIndex(p => p?.isBigBlind);
+      const moved = getNextBigBlindSeat(table.players, table.gameState.dealerIndex);
+      const next = startHand(table).state;
+      assert.ok(next.players[moved]!.isBigBlind, `seats ${seats}, hand ${hand}`);
+
+      // Without the moved player the blind passes on rather than back to
+      // whoever just posted it (heads-up has its own blind rules).
+      if (seats.length > 3) {
+        const left = { ...table, players: table.players.map((p, i) => (i === moved ? null : p)) };
+        const nextBigBlind = startHand(left).state.players.findIndex(p => p?.isBigBlind);
+        assert.notEqual(nextBigBlind, bigBlind, `seats ${seats}, hand ${hand}`);
+      }
+    }
+  });
+});
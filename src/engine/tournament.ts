@@ -0,0 +1,195 @@
+import { BlindLevel, Player, TournamentConfig, TournamentFinish, TournamentState } from '../types';
+import { TableState } from './engine';
+
+// --- Sit & Go Tournaments ---
+// The table itself is an ordinary engine table; this module only decides
+// the blinds it plays at, who has finished where and what they are paid.
+
+export const BLIND_LEVELS: BlindLevel[] = [
+  { smallBlind: 10, bigBlind: 20, ante: 0 },
+  { smallBlind: 15, bigBlind: 30, ante: 0 },
+  { smallBlind: 25, bigBlind: 50, ante: 0 },
+  { smallBlind: 50, bigBlind: 100, ante: 10 },
+  { smallBlind: 75, bigBlind: 150, ante: 15 },
+  { smallBlind: 100, bigBlind: 200, ante: 25 },
+  { smallBlind: 150, bigBlind: 300, ante: 40 },
+  { smallBlind: 200, bigBlind: 400, ante: 50 },
+  { smallBlind: 300, bigBlind: 600, ante: 75 },
+  { smallBlind: 500, bigBlind: 1000, ante: 100 },
+  { smallBlind: 800, bigBlind: 1600, ante: 200 },
+  { smallBlind: 1000, bigBlind: 2000, ante: 250 },
+];
+
+export const PAYOUT_PRESETS: { label: string; payouts: number[] }[] = [
+  { label: 'Winner takes all', payouts: [100] },
+  { label: 'Top 2 (65/35)', payouts: [65, 35] },
+  { label: 'Top 3 (50/30/20)', payouts: [50, 30, 20] },
+];
+
+export const DEFAULT_TOURNAMENT_CONFIG: TournamentConfig = {
+  buyIn: 100,
+  startingStack: 1500,
+  levelDurationSec: 300,
+  levels: BLIND_LEVELS,
+  payouts: PAYOUT_PRESETS[1].payouts,
+};
+
+const toInt = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : fallback;
+
+const isValidPayouts = (payouts: unknown, seatCount: number): payouts is number[] =>
+  Array.isArray(payouts) &&
+  payouts.length > 0 &&
+  payouts.length <= seatCount &&
+  payouts.every(p => Number.isInteger(p) && p > 0) &&
+  payouts.reduce((sum, p) => sum + p, 0) === 100;
+
+// Builds a sane config from untrusted input. The blind schedule is always
+// the standard one; payouts must be whole percents adding up to 100 and
+// cannot pay more places than there are seats. Anything that isn't an
+// object, null included, counts as no input at all.
+export const createTournamentConfig = (raw: Partial<TournamentConfig> | null = {}, seatCount: number): TournamentConfig => {
+  const input: Partial<TournamentConfig> = raw !== null && typeof raw === 'object' ? raw : {};
+  return {
+    buyIn: Math.min(100000, Math.max(0, toInt(input.buyIn, DEFAULT_TOURNAMENT_CONFIG.buyIn))),
+    startingStack: Math.min(100000, Math.max(BLIND_LEVELS[0].bigBlind * 10, toInt(input.startingStack, DEFAULT_TOURNAMENT_CONFIG.startingStack))),
+    levelDurationSec: Math.min(3600, Math.max(60, toInt(input.levelDurationSec, DEFAULT_TOURNAMENT_CONFIG.levelDurationSec))),
+    levels: BLIND_LEVELS,
+    payouts: isValidPayouts(input.payouts, seatCount) ? input.payouts : [100],
+  };
+};
+
+export const createTournamentState = (config: TournamentConfig): TournamentState => ({
+  config,
+  status: 'REGISTERING',
+  levelIndex: 0,
+  levelEndsAt: null,
+  entrants: 0,
+  prizePool: 0,
+  finishes: [],
+  handForHand: false,
+});
+
+export const getBlindLevel = (t: TournamentState) =>
+  t.config.levels[Math.min(t.levelIndex, t.config.levels.length - 1)];
+
+// Blinds only change between hands, so this is applied just before a deal.
+export const applyBlindLevel = (table: TableState, level: BlindLevel): TableState => ({
+  ...table,
+  config: { ...table.config, ...level },
+});
+
+// Prize for each paid place; odd chips go to the winner.
+export const getPrizes = (t: TournamentState): number[] => {
+  const prizes = t.config.payouts.map(pct => Math.floor((t.prizePool * pct) / 100));
+  prizes[0] += t.prizePool - prizes.reduce((sum, p) => sum + p, 0);
+  return prizes;
+};
+
+// Players who ran out of chips this hand finish next, the bigger starting
+// stack placing higher; once one player is left they win and it is over.
+// othersRemaining counts players still in at tables not being settled.
+export const recordEliminations = (
+  t: TournamentState,
+  players: (Player | null)[],
+  startingStacks: Map<string, number>,
+  othersRemaining = 0
+): TournamentState => {
+  const prizes = getPrizes(t);
+  const finishes = [...t.finishes];
+  const finished = new Set(finishes.map(f => f.playerId));
+  const seated = players.filter((p): p is Player => !!p && !finished.has(p.id));
+  const remaining = seated.filter(p => p.chips > 0);
+  const left = remaining.length + othersRemaining;
+  const finish = (p: Player, position: number): TournamentFinish => ({
+    playerId: p.id,
+    name: p.name,
+    position,
+    prize: prizes[position - 1] ?? 0,
+  });
+
+  seated
+    .filter(p => p.chips <= 0)
+    .sort((a, b) => (startingStacks.get(a.id) ?? 0) - (startingStacks.get(b.id) ?? 0))
+    .forEach((p, i, busted) => finishes.push(finish(p, left + busted.length - i)));
+
+  if (left > 1) return { ...t, finishes };
+  if (remaining.length === 1) finishes.push(finish(remaining[0], 1));
+  return { ...t, finishes, status: 'FINISHED', levelEndsAt: null };
+};
+
+// --- Multi-Table Tournaments ---
+
+// Paid places grow with the field.
+const MTT_PAYOUTS: { maxEntrants: number; payouts: number[] }[] = [
+  { maxEntrants: 9, payouts: [50, 30, 20] },
+  { maxEntrants: 18, payouts: [40, 25, 15, 12, 8] },
+  { maxEntrants: 45, payouts: [30, 20, 14, 10, 8, 6, 5, 4, 3] },
+  { maxEntrants: Infinity, payouts: [25, 16, 12, 9, 7, 6, 5, 4, 3, 3, 2, 2, 2, 2, 2] },
+];
+
+export const getMttPayouts = (entrants: number): number[] => {
+  const { payouts } = MTT_PAYOUTS.find(p => entrants <= p.maxEntrants)!;
+  // Never pay more places than there are players; the cut goes to the winner.
+  const paid = payouts.slice(0, Math.max(1, entrants - 1));
+  paid[0] += 100 - paid.reduce((sum, p) => sum + p, 0);
+  return paid;
+};
+
+export interface BalancingTable {
+  id: string;
+  playerCount: number;
+  canMoveFrom: boolean; // Only tables between hands can give players up
+}
+
+export interface TableMove {
+  from: string;
+  to: string;
+}
+
+// Works out who moves where after a hand. Once the field fits on one table
+// fewer, the shortest table is broken and its players spread over the
+// others; then players move from the biggest tables to the shortest until
+// no two tables differ by more than one.
+export const planTableBalance = (tables: BalancingTable[], seatCount: number) => {
+  const counts = new Map(tables.map(t => [t.id, t.playerCount]));
+  const total = tables.reduce((sum, t) => sum + t.playerCount, 0);
+  const moves: TableMove[] = [];
+  const move = (from: string, to: string) => {
+    moves.push({ from, to });
+    counts.set(from, counts.get(from)! - 1);
+    counts.set(to, counts.get(to)! + 1);
+  };
+  const byCount = (ids: string[]) => [...ids].sort((a, b) => counts.get(a)! - counts.get(b)!);
+
+  let breaking: string | null = null;
+  if (tables.length > Math.max(1, Math.ceil(total / seatCount))) {
+    const shortest = byCount(tables.map(t => t.id))[0];
+    // A short table still in a hand is broken once that hand is over.
+    if (tables.find(t => t.id === shortest)!.canMoveFrom) breaking = shortest;
+  }
+  const open = tables.map(t => t.id).filter(id => id !== breaking);
+  if (breaking) {
+    while (counts.get(breaking)! > 0) move(breaking, byCount(open)[0]);
+  }
+
+  const movable = new Set(tables.filter(t => t.canMoveFrom).map(t => t.id));
+  for (;;) {
+    const sorted = byCount(open);
+    const to = sorted[0];
+    const from = sorted.reverse().find(id => movable.has(id));
+    if (!from || counts.get(from)! - counts.get(to)! <= 1) break;
+    move(from, to);
+  }
+  return { breaking, moves };
+};
+
+// The seat that posts the big blind next hand; moving that player means
+// nobody skips the blinds on the way to a new table.
+export const getNextBigBlindSeat = (players: (Player | null)[], dealerIndex: number) => {
+  const seats = players.map((p, i) => (p ? i : -1)).filter(i => i !== -1);
+  if (seats.length === 0) return -1;
+  const after = seats.filter(i => i > dealerIndex);
+  const order = [...after, ...seats.filter(i => i <= dealerIndex)];
+  return order[Math.min(2, order.length - 1)];
+};
@@ -0,0 +1,73 @@
+import { Card, GameVariant, HandHistory, Player, PlayerStatus, Suit, TableConfig } from '../types';
+import { ActionType, TableState, applyAction, createTable, nextPhase, startHand } from '../engine/engine';
+import { recordEvents, startHistory } from '../engine/history';
+import { createTableConfig } from '../engine/config';
+import { createDeck, isSameCard } from '../utils/poker';
+
+// --- Test Fixtures ---
+// Shared by the engine tests: readable cards, stacked decks and seated tables.
+
+// Cards in short notation, e.g. cards('As Td 2c'): rank then suit letter.
+const SUITS: Record<string, Suit> = { h: Suit.HEARTS, d: Suit.DIAMONDS, c: Suit.CLUBS, s: Suit.SPADES };
+
+export const cards = (notation: string): Card[] => {
+  const deck = createDeck();
+  return notation.split(' ').filter(Boolean).map(code => {
+    const rank = code.slice(0, -1) === 'T' ? '10' : code.slice(0, -1);
+    const card = deck.find(c => c.rank === rank && c.suit === SUITS[code.slice(-1)]);
+    if (!card) throw new Error(`Unknown card: ${code}`);
+    return card;
+  });
+};
+
+// A full deck that deals `dealt` first, in order. startHand gives each
+// player their cards in seat order (all of one player's, then the next's);
+// streets follow from what is left.
+export const stackDeck = (dealt: string, variant: GameVariant = 'HOLDEM'): Card[] => {
+  const top = cards(dealt);
+  const rest = createDeck(variant).filter(c => !top.some(t => isSameCard(t, c)));
+  return [...rest, ...top.reverse()];
+};
+
+export const createPlayer = (id: string, chips: number): Player => ({
+  id,
+  name: id,
+  chips,
+  bet: 0,
+  totalBet: 0,
+  status: PlayerStatus.SITTING_OUT,
+  cards: [],
+  isDealer: false,
+  isSmallBlind: false,
+  isBigBlind: false,
+  hasActed: false,
+  isDisconnected: false,
+  isSittingOut: false,
+  timeBank: 0,
+  botStyle: null,
+});
+
+// A full $10/$20 table with one player per stack, named p0, p1, ...
+export const seatPlayers = (config: Partial<TableConfig>, stacks: number[]): TableState => {
+  const table = createTable(createTableConfig({ smallBlind: 10, bigBlind: 20, seatCount: stacks.length, ...config }));
+  stacks.forEach((chips, i) => {
+    table.players[i] = createPlayer(`p${i}`, chips);
+  });
+  return table;
+};
+
+// Deals `table` a hand from `deck`, plays `moves` and returns its history.
+// A move is [seat, action, amount?]; 'deal' moves on to the next street.
+export type Move = [number, ActionType, number?] | 'deal';
+
+export const recordHand = (table: TableState, deck: Card[], moves: Move[]): HandHistory => {
+  const dealt = startHand(table, deck);
+  const history = startHistory(dealt.state, 't1', 'Test');
+  recordEvents(history, dealt.state, dealt.events);
+  moves.reduce((state, move) => {
+    const result = move === 'deal' ? nextPhase(state) : applyAction(state, move[0], { type: move[1], amount: move[2] });
+    recordEvents(history, result.state, result.events);
+    return result.state;
+  }, dealt.state);
+  return history;
+};
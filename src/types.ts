@@ -14,6 +14,7 @@ export interface Card {
   suit: Suit;
   rank: Rank;
   value: number; // 2-14 for comparison
+  faceUp?: boolean; // Stud only: dealt face up, so everyone sees it
 }
 
 export enum PlayerStatus {
@@ -25,17 +26,50 @@ export enum PlayerStatus {
   BUSTED = 'BUSTED',
 }
 
+export type BotStyle = 'TIGHT_PASSIVE' | 'LOOSE_AGGRESSIVE' | 'CALLING_STATION' | 'EQUITY';
+
 export interface Player {
-  id: number;
+  id: string; // Stable across reconnects; never the session token itself
   name: string;
   chips: number;
   bet: number; // Current round bet
+  totalBet: number; // Chips committed this hand, used to build side pots
   status: PlayerStatus;
   cards: Card[];
   isDealer: boolean;
   isSmallBlind: boolean;
   isBigBlind: boolean;
   hasActed: boolean; // For current round logic
+  isDisconnected: boolean; // Seat held while the owner reconnects
+  isSittingOut: boolean; // Not dealt into new hands
+  timeBank: number; // Extra seconds available once the action clock runs out
+  botStyle: BotStyle | null; // Set for computer-controlled seats
+}
+
+// Player as sent to one client: hole cards it may not see are null.
+export type PublicPlayer = Omit<Player, 'cards'> & { cards: (Card | null)[] };
+
+export type ActionRejectionCode =
+  | 'NO_HAND'
+  | 'NOT_SEATED'
+  | 'NOT_YOUR_TURN'
+  | 'UNKNOWN_ACTION'
+  | 'ILLEGAL_CHECK'
+  | 'NOTHING_TO_CALL'
+  | 'INVALID_AMOUNT'
+  | 'RAISE_TOO_SMALL'
+  | 'RAISE_TOO_LARGE'
+  | 'RAISE_NOT_ALLOWED'
+  | 'INVALID_BUY_IN'
+  | 'NOT_VOTING'
+  | 'NOT_LOGGED_IN'
+  | 'INSUFFICIENT_FUNDS'
+  | 'REGISTRATION_CLOSED';
+
+// Sent to the acting client when the server refuses an action.
+export interface ActionRejection {
+  code: ActionRejectionCode;
+  message: string;
 }
 
 export enum GamePhase {
@@ -44,23 +78,315 @@ export enum GamePhase {
   FLOP = 'FLOP',
   TURN = 'TURN',
   RIVER = 'RIVER',
+  // Stud streets, named after how many cards each player holds
+  THIRD_STREET = 'THIRD_STREET',
+  FOURTH_STREET = 'FOURTH_STREET',
+  FIFTH_STREET = 'FIFTH_STREET',
+  SIXTH_STREET = 'SIXTH_STREET',
+  SEVENTH_STREET = 'SEVENTH_STREET',
   SHOWDOWN = 'SHOWDOWN',
 }
 
+export interface Pot {
+  amount: number;
+  eligibleSeats: number[]; // Seats still contesting this pot
+}
+
+export interface PotAward {
+  playerId: string;
+  handName: string;
+  amount: number;
+  potIndex: number; // 0 = main pot, 1+ = side pots
+  cards: Card[]; // Best five shown down; empty when everyone else folded
+  runIndex: number; // Which board won it when the hand is run more than once
+}
+
+// Asked of every player still in once an all-in hand has nothing left to bet.
+// Each vote is how many times that player will run it; the lowest vote wins.
+export interface RunoutVote {
+  seats: number[];
+  votes: (number | null)[]; // Aligned with seats; null = not answered yet
+}
+
+// Server-run turn timer; timestamps are server epoch milliseconds.
+export interface ActionClock {
+  seatIndex: number;
+  startedAt: number;
+  deadline: number;
+  usingTimeBank: boolean;
+}
+
+// Chance (0..1) that an all-in hand wins outright or splits at showdown.
+export interface HandEquity {
+  seatIndex: number;
+  win: number;
+  tie: number;
+}
+
 export interface GameState {
   pot: number;
+  pots: Pot[]; // Main pot followed by side pots, rebuilt after each street
   communityCards: Card[];
   deck: Card[];
   phase: GamePhase;
   currentPlayerIndex: number;
   dealerIndex: number;
-  minBet: number; // Big Blind amount
+  minBet: number; // Minimum raise increment: the last full raise, never below the big blind
+  raiseCount: number; // Full bets and raises this street; preflop the big blind is the first
   currentBet: number; // Highest bet in current round to match
   lastRaiserIndex: number | null;
-  winners: { playerId: number; handName: string; amount: number }[];
+  actionClock: ActionClock | null; // Only set on server-run tables
+  equity: HandEquity[]; // Filled while an all-in hand runs out; empty otherwise
+  runoutVote: RunoutVote | null; // Offered at most once per hand
+  boards: Card[][]; // Extra runs dealt alongside communityCards
+  winners: PotAward[];
   logs: string[];
 }
 
+// Fixed-limit bets a small bet (the big blind) on the first two streets
+// and a big bet (twice that) on the turn and river, or from fifth street on
+// in stud.
+export type BettingStructure = 'NO_LIMIT' | 'POT_LIMIT' | 'FIXED_LIMIT';
+
+// Omaha deals four hole cards and a hand must use exactly two of them with
+// three from the board. Short Deck (6+ Hold'em) removes the deuces through
+// fives: a flush beats a full house and A-6-7-8-9 is the lowest straight.
+// Seven Card Stud has no board: each player gets two cards down, four up
+// and a last one down, and the best five of seven win. Razz is dealt the
+// same way but the best ace-to-five low wins.
+export type GameVariant = 'HOLDEM' | 'OMAHA' | 'SHORT_DECK' | 'STUD' | 'RAZZ';
+
+// Fixed per table when it is created. Stud games have no blinds: there the
+// small blind is the bring-in and the big blind the small bet.
+export interface TableConfig {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number; // 0 for no ante
+  variant: GameVariant;
+  bettingStructure: BettingStructure;
+  minBuyIn: number;
+  maxBuyIn: number;
+  seatCount: number; // 2-9
+  actionTimeoutSec: number;
+  timeBankSec: number; // Starting and maximum time bank per player
+}
+
+// One row of the online lobby.
+export interface TableSummary {
+  id: string;
+  name: string;
+  config: TableConfig;
+  playerCount: number;
+  handsPlayed: number;
+  averagePot: number;
+  tournament: TournamentState | null; // Set for sit-and-go and multi-table tournament tables
+  tournamentId: string | null; // The multi-table tournament this table belongs to
+}
+
+// --- Tournaments ---
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+}
+
+// Fixed when the tournament is created, except that a multi-table
+// tournament's payouts follow the number of entrants.
+export interface TournamentConfig {
+  buyIn: number; // Taken from the bankroll on registration
+  startingStack: number;
+  levelDurationSec: number;
+  levels: BlindLevel[]; // The last level repeats once reached
+  payouts: number[]; // Percent of the prize pool for 1st, 2nd, ...
+}
+
+export type TournamentStatus = 'REGISTERING' | 'RUNNING' | 'FINISHED';
+
+export interface TournamentFinish {
+  playerId: string;
+  name: string;
+  position: number; // 1 = winner
+  prize: number;
+}
+
+export interface TournamentState {
+  config: TournamentConfig;
+  status: TournamentStatus;
+  levelIndex: number;
+  levelEndsAt: number | null; // Server epoch ms; null unless running
+  entrants: number;
+  prizePool: number;
+  finishes: TournamentFinish[]; // In order of elimination, winner last
+  handForHand: boolean; // On the bubble every table waits for the others between hands
+}
+
+// One row of the lobby's tournament list.
+export interface MultiTableTournamentSummary {
+  id: string;
+  name: string;
+  hostId: string | null;
+  seatCount: number; // Per table
+  maxEntrants: number; // Starts by itself once this many have registered
+  state: TournamentState;
+  remaining: number;
+  tableCount: number;
+  registeredIds: string[];
+}
+
+export interface TournamentEntrant {
+  playerId: string;
+  name: string;
+  chips: number;
+  tableId: string | null; // null once knocked out or before the start
+  tableName: string | null;
+}
+
+// Everything the tournament lobby shows; players are ordered by chip count.
+export interface TournamentLobby extends MultiTableTournamentSummary {
+  players: TournamentEntrant[];
+  tables: { id: string; name: string; playerCount: number }[];
+}
+
+// --- Hand History ---
+
+export type HistoryActionType =
+  | 'ante'
+  | 'smallBlind'
+  | 'bigBlind'
+  | 'bringIn'
+  | 'fold'
+  | 'check'
+  | 'call'
+  | 'bet'
+  | 'raise'
+  | 'uncalledBetReturned';
+
+export interface HistoryAction {
+  phase: GamePhase;
+  seatIndex: number;
+  type: HistoryActionType;
+  amount: number; // Chips moved by this action
+  betTo: number; // The player's total bet on this street afterwards
+  allIn: boolean;
+}
+
+export interface HistorySeat {
+  seatIndex: number;
+  playerId: string;
+  name: string;
+  stack: number; // Chips at the start of the hand
+  cards: Card[]; // Only the face-up ones in copies for viewers who never saw them
+}
+
+export interface HandHistory {
+  handId: string; // Numeric, as tracking software expects
+  tableId: string;
+  tableName: string;
+  config: TableConfig;
+  startedAt: number;
+  endedAt: number | null;
+  dealerIndex: number;
+  smallBlindIndex: number;
+  bigBlindIndex: number;
+  seats: HistorySeat[]; // Only the players dealt in
+  actions: HistoryAction[];
+  boards: Card[][]; // The board, then any extra runs
+  shown: { seatIndex: number; handName: string }[]; // Hands turned over at showdown
+  awards: PotAward[];
+  fairness: FairnessProof | null; // Server-dealt hands only
+}
+
+// One row of a player's hand list.
+export interface HandHistorySummary {
+  handId: string;
+  tableName: string;
+  startedAt: number;
+  pot: number;
+  winners: string[];
+}
+
+// --- Provably Fair Shuffle ---
+
+// Everything needed to rebuild a hand's deck once the server seed is out.
+export interface FairnessProof {
+  serverSeed: string;
+  serverSeedHash: string; // Published before the hand
+  clientSeed: string; // Seeds of the players dealt in, in seat order
+  nonce: number; // The table's hand number
+  variant: GameVariant; // Decides which deck is shuffled
+}
+
+// What a table tells its players: the commitment for the next hand, the
+// one being played, and the full proof of the last hand.
+export interface FairnessInfo {
+  nextServerSeedHash: string;
+  current: Omit<FairnessProof, 'serverSeed'> | null;
+  revealed: FairnessProof | null;
+}
+
+// --- Accounts ---
+
+export interface AccountSummary {
+  username: string;
+  balance: number; // Bankroll not currently on a table
+}
+
+export type BankrollTransactionKind =
+  | 'signup'
+  | 'buyIn'
+  | 'cashOut'
+  | 'tournamentEntry'
+  | 'tournamentRefund'
+  | 'tournamentPrize';
+
+export interface BankrollTransaction {
+  id: number;
+  kind: BankrollTransactionKind;
+  amount: number; // Signed: buy-ins are negative
+  balance: number; // Bankroll afterwards
+  note: string; // Table name, where there is one
+  createdAt: number;
+}
+
+export interface AccountProfile extends AccountSummary {
+  createdAt: number;
+  transactions: BankrollTransaction[]; // Newest first
+}
+
+// --- Player Statistics ---
+
+// Running counters, accumulated hand by hand; percentages are derived.
+export interface PlayerStats {
+  playerId: string;
+  name: string; // As last seen at the table
+  hands: number;
+  vpip: number; // Hands that put money in preflop voluntarily
+  pfr: number; // Hands raised preflop
+  threeBetChances: number; // Hands facing a single preflop raise
+  threeBets: number;
+  aggressiveActions: number; // Postflop bets and raises
+  calls: number; // Postflop calls
+  sawFlop: number;
+  wentToShowdown: number;
+  wonAtShowdown: number;
+  net: number; // Chips won minus chips put in
+}
+
+// GameState as sent to clients; the deck never leaves the server.
+export type PublicGameState = Omit<GameState, 'deck'>;
+
+// A table as one client may see it (see engine/projection.ts).
+export interface PublicTableState {
+  config: TableConfig;
+  players: (PublicPlayer | null)[];
+  gameState: PublicGameState;
+}
+
+// Spreads smaller tables evenly over the nine-seat layout.
+export const getSeatPosition = (index: number, seatCount: number) =>
+  SEAT_POSITIONS[Math.round((index * SEAT_POSITIONS.length) / seatCount) % SEAT_POSITIONS.length];
+
 export const SEAT_POSITIONS = [
   { top: '85%', left: '50%', transform: 'translate(-50%, -50%)' }, // User (Seat 0)
   { top: '80%', left: '20%', transform: 'translate(-50%, -50%)' }, // Seat 1
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDeck, isSameCard } from './poker';
+import { createServerSeed, hashServerSeed, shuffleWithSeeds, verifyShuffle } from './fairShuffle';
+
+const SERVER_SEED = 'a'.repeat(64);
+
+test('the same seeds always give the same deck', async () => {
+  const first = await shuffleWithSeeds(SERVER_SEED, 'client', 7);
+  assert.deepEqual(await shuffleWithSeeds(SERVER_SEED, 'client', 7), first);
+  assert.notDeepEqual(await shuffleWithSeeds(SERVER_SEED, 'client', 8), first);
+  assert.notDeepEqual(await shuffleWithSeeds(SERVER_SEED, 'other', 7), first);
+});
+
+test('a seeded shuffle deals every card of the variant once', async () => {
+  for (const variant of ['HOLDEM', 'SHORT_DECK'] as const) {
+    const deck = await shuffleWithSeeds(SERVER_SEED, 'client', 1, variant);
+    const full = createDeck(variant);
+    assert.equal(deck.length, full.length);
+    assert.ok(full.every(c => deck.some(d => isSameCard(c, d))));
+  }
+});
+
+test('a revealed seed verifies against its commitment and rebuilds the deck', async () => {
+  const serverSeed = createServerSeed();
+  const serverSeedHash = await hashServerSeed(serverSeed);
+  const proof = { serverSeed, serverSeedHash, clientSeed: 'client', nonce: 3, variant: 'HOLDEM' as const };
+  const verified = await verifyShuffle(proof);
+  assert.ok(verified.hashMatches);
+  assert.deepEqual(verified.deck, await shuffleWithSeeds(serverSeed, 'client', 3));
+  assert.ok(!(await verifyShuffle({ ...proof, serverSeed: SERVER_SEED })).hashMatches);
+});
@@ -0,0 +1,72 @@
+import { Card, FairnessProof, GameVariant } from '../types';
+import { createDeck } from './poker';
+
+// --- Provably Fair Shuffle ---
+// The server commits to a secret seed by publishing SHA-256(serverSeed)
+// before the hand. The deck is then shuffled with bytes from
+// HMAC-SHA256(key = serverSeed, message = `${clientSeed}:${nonce}:${block}`)
+// for block = 0, 1, 2, ... Each 4 bytes are read as a big-endian uint32 and
+// drive a Fisher-Yates shuffle of createDeck(variant), from the last card down,
+// with rejection sampling so every order is equally likely. Once the seed is
+// revealed anyone can rebuild the exact deck with the same code.
+//
+// Runs on Web Crypto, so the server and the browser share it.
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const randomHex = (byteCount: number) => {
+  const bytes = new Uint8Array(byteCount);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+export const createServerSeed = () => randomHex(32);
+export const createClientSeed = () => randomHex(8);
+
+export const hashServerSeed = async (serverSeed: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', encoder.encode(serverSeed)));
+
+// Endless stream of uint32s from the seeded HMAC, one 32-byte block at a time.
+const createSeededStream = async (serverSeed: string, clientSeed: string, nonce: number) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(serverSeed), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  let block = 0;
+  let words: DataView | null = null;
+  let offset = 0;
+  return async () => {
+    if (!words || offset === words.byteLength) {
+      words = new DataView(await crypto.subtle.sign('HMAC', key, encoder.encode(`${clientSeed}:${nonce}:${block++}`)));
+      offset = 0;
+    }
+    const value = words.getUint32(offset);
+    offset += 4;
+    return value;
+  };
+};
+
+export const shuffleWithSeeds = async (
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  variant: GameVariant = 'HOLDEM'
+): Promise<Card[]> => {
+  const next = await createSeededStream(serverSeed, clientSeed, nonce);
+  const deck = createDeck(variant);
+  for (let i = deck.length - 1; i > 0; i--) {
+    const range = i + 1;
+    const limit = Math.floor(0x100000000 / range) * range; // Largest multiple of range below 2^32
+    let value = await next();
+    while (value >= limit) value = await next();
+    const j = value % range;
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+};
+
+// Checks a revealed seed against its commitment and rebuilds the deck.
+export const verifyShuffle = async (proof: FairnessProof) => ({
+  hashMatches: (await hashServerSeed(proof.serverSeed)) === proof.serverSeedHash.toLowerCase(),
+  deck: await shuffleWithSeeds(proof.serverSeed, proof.clientSeed, proof.nonce, proof.variant),
+});
@@ -0,0 +1,171 @@
+import { Card, GameVariant, Suit } from '../types';
+import { describeScore, evaluateHand } from './poker';
+
+// --- Fast Hand Evaluator ---
+// Same scores as `evaluateHand`, but built from 13-bit rank masks and
+// precomputed tables instead of sorting and trying every five-card subset.
+// Meant for hot loops (equity, bots, simulations); the table itself still
+// uses `evaluateHand` at showdown because it needs the best five cards.
+
+const SUIT_INDEX: Record<Suit, number> = {
+  [Suit.HEARTS]: 0, [Suit.DIAMONDS]: 1, [Suit.CLUBS]: 2, [Suit.SPADES]: 3,
+};
+
+// Bit (value - 2) is set for each rank present: 2 -> bit 0, Ace -> bit 12.
+const MASK_SIZE = 1 << 13;
+const BIT_COUNT = new Uint8Array(MASK_SIZE);
+const STRAIGHT_HIGH = new Uint8Array(MASK_SIZE); // 0 = no straight
+
+for (let mask = 1; mask < MASK_SIZE; mask++) {
+  BIT_COUNT[mask] = BIT_COUNT[mask >> 1] + (mask & 1);
+  for (let high = 14; high >= 6; high--) {
+    const run = 0b11111 << (high - 6);
+    if ((mask & run) === run) {
+      STRAIGHT_HIGH[mask] = high;
+      break;
+    }
+  }
+  const wheel = (1 << 12) | 0b1111;
+  if (!STRAIGHT_HIGH[mask] && (mask & wheel) === wheel) STRAIGHT_HIGH[mask] = 5;
+}
+
+// Short deck's lowest straight, A-6-7-8-9; it has no cards for the wheel.
+const SHORT_WHEEL = (1 << 12) | (0b1111 << 4);
+const getStraightHigh = (mask: number, variant: GameVariant) =>
+  STRAIGHT_HIGH[mask] || (variant === 'SHORT_DECK' && (mask & SHORT_WHEEL) === SHORT_WHEEL ? 9 : 0);
+
+// Packs the highest `count` ranks of `mask` after `acc` as base-15 digits.
+const packTop = (acc: number, mask: number, count: number) => {
+  for (let v = 14; v >= 2 && count > 0; v--) {
+    if (mask & (1 << (v - 2))) {
+      acc = acc * 15 + v;
+      count--;
+    }
+  }
+  return acc;
+};
+
+const pad = (packed: number, digits: number) => packed * Math.pow(15, 5 - digits);
+
+// Scratch space reused across calls; evaluation is synchronous.
+const counts = new Uint8Array(15);
+const suitMasks = [0, 0, 0, 0];
+
+export const scoreCards = (cards: Card[], variant: GameVariant = 'HOLDEM'): number => {
+  counts.fill(0);
+  suitMasks.fill(0);
+  let rankMask = 0;
+  for (let i = 0; i < cards.length; i++) {
+    const bit = 1 << (cards[i].value - 2);
+    counts[cards[i].value]++;
+    suitMasks[SUIT_INDEX[cards[i].suit]] |= bit;
+    rankMask |= bit;
+  }
+
+  let flushMask = 0;
+  for (let s = 0; s < 4; s++) {
+    if (BIT_COUNT[suitMasks[s]] >= 5) flushMask = suitMasks[s];
+  }
+  if (flushMask && getStraightHigh(flushMask, variant)) return 9000000 + pad(getStraightHigh(flushMask, variant), 1);
+
+  let quad = 0, trip = 0, trip2 = 0, pair = 0, pair2 = 0;
+  for (let v = 14; v >= 2; v--) {
+    const n = counts[v];
+    if (n === 4) quad = v;
+    else if (n === 3) { if (trip) trip2 = trip2 || v; else trip = v; }
+    else if (n === 2) { if (pair) pair2 = pair2 || v; else pair = v; }
+  }
+  const without = (...values: number[]) => values.reduce((m, v) => m & ~(1 << (v - 2)), rankMask);
+
+  const fullHouse = trip && (trip2 || pair) ? pad(trip * 15 + Math.max(trip2, pair), 2) : 0;
+  if (quad) return 8000000 + pad(packTop(quad, without(quad), 1), 2);
+  // In short deck a flush beats a full house.
+  if (variant === 'SHORT_DECK' && flushMask) return 7000000 + packTop(0, flushMask, 5);
+  if (fullHouse) return (variant === 'SHORT_DECK' ? 6000000 : 7000000) + fullHouse;
+  if (flushMask) return 6000000 + packTop(0, flushMask, 5);
+  if (getStraightHigh(rankMask, variant)) return 5000000 + pad(getStraightHigh(rankMask, variant), 1);
+  if (trip) return 4000000 + pad(packTop(trip, without(trip), 2), 3);
+  if (pair2) return 3000000 + pad(packTop(pair * 15 + pair2, without(pair, pair2), 1), 3);
+  if (pair) return 2000000 + pad(packTop(pair, without(pair), 3), 4);
+  return 1000000 + packTop(0, rankMask, 5);
+};
+
+// Index picks of k out of n, built once per shape.
+const pickCache = new Map<string, number[][]>();
+const getPicks = (n: number, k: number): number[][] => {
+  const key = `${n}:${k}`;
+  if (!pickCache.has(key)) {
+    const picks: number[][] = [];
+    const walk = (start: number, pick: number[]) => {
+      if (pick.length === k) picks.push(pick);
+      else for (let i = start; i < n; i++) walk(i + 1, [...pick, i]);
+    };
+    walk(0, []);
+    pickCache.set(key, picks);
+  }
+  return pickCache.get(key)!;
+};
+
+// Omaha: exactly two hole cards with exactly three from the board.
+const five: Card[] = new Array(5);
+const scoreOmaha = (holeCards: Card[], board: Card[]): number => {
+  let best = 0;
+  for (const [a, b] of getPicks(holeCards.length, 2)) {
+    five[0] = holeCards[a];
+    five[1] = holeCards[b];
+    for (const [c, d, e] of getPicks(board.length, 3)) {
+      five[2] = board[c];
+      five[3] = board[d];
+      five[4] = board[e];
+      best = Math.max(best, scoreCards(five));
+    }
+  }
+  return best;
+};
+
+// Razz: the five lowest different ranks, ace low. Only the common shapes
+// (no pair, one pair) are done here; anything worse is rare enough to leave
+// to `evaluateHand`.
+const lowCounts = new Uint8Array(14);
+const scoreLow = (cards: Card[]): number => {
+  if (cards.length < 5) return evaluateHand(cards, [], 'RAZZ').score;
+  lowCounts.fill(0);
+  let distinct = 0;
+  for (let i = 0; i < cards.length; i++) {
+    const v = cards[i].value === 14 ? 1 : cards[i].value;
+    if (lowCounts[v]++ === 0) distinct++;
+  }
+  if (distinct < 4) return evaluateHand(cards, [], 'RAZZ').score;
+
+  // Lowest ranks first; digits are stored as 14 - rank, highest rank first.
+  const ranks: number[] = [];
+  let pair = 0;
+  for (let v = 1; v <= 13 && ranks.length < 5; v++) {
+    if (!lowCounts[v]) continue;
+    if (distinct === 4 && !pair && lowCounts[v] > 1) pair = v;
+    else ranks.push(v);
+  }
+  const packed = ranks.reduceRight((acc, v) => acc * 15 + 14 - v, pair ? 14 - pair : 0);
+  return pair ? 8000000 + pad(packed, 4) : 9000000 + packed;
+};
+
+// Score of a player's best hand with this board under the variant's rules.
+export const scoreHand = (holeCards: Card[], board: Card[], variant: GameVariant = 'HOLDEM'): number => {
+  if (variant === 'OMAHA') return scoreOmaha(holeCards, board);
+  if (variant === 'RAZZ') return scoreLow(holeCards.concat(board));
+  return scoreCards(holeCards.concat(board), variant);
+};
+
+// Drop-in for `evaluateHand` on 5-9 cards; the name is only built when read.
+export const evaluateHandFast = (
+  holeCards: Card[],
+  communityCards: Card[],
+  variant: GameVariant = 'HOLDEM'
+): { score: number; name: string } => {
+  if (holeCards.length + communityCards.length < 5 || (variant === 'OMAHA' && communityCards.length < 3)) {
+    return evaluateHand(holeCards, communityCards, variant);
+  }
+  const score = scoreHand(holeCards, communityCards, variant);
+  if (variant === 'RAZZ') return { score, get name() { return evaluateHand(holeCards, communityCards, variant).name; } };
+  return { score, get name() { return describeScore(score, variant); } };
+};
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readPayload } from './payload';
+
+test('readPayload turns anything but an object into an empty payload', () => {
+  [null, undefined, 'sit', 3, true, [1, 2]].forEach(payload => assert.deepEqual(readPayload(payload), {}));
+  const { action, amount } = readPayload(null);
+  assert.equal(action, undefined);
+  assert.equal(amount, undefined);
+});
+
+test('readPayload passes objects through', () => {
+  const payload = { action: 'raise', amount: 40 };
+  assert.equal(readPayload(payload), payload);
+});
@@ -0,0 +1,4 @@
+// Socket payloads come straight off the wire. Anything but a plain object,
+// null included, reads as an empty one so handlers can destructure it.
+export const readPayload = (payload: unknown): Record<string, unknown> =>
+  payload !== null && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Record<string, unknown>) : {};
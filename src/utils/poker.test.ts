@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameVariant } from '../types';
+import { createDeck, evaluateHand } from './poker';
+import { evaluateHandFast } from './fastEvaluator';
+import { cards } from '../test/fixtures';
+
+const evaluate = (hole: string, board: string, variant?: GameVariant) => evaluateHand(cards(hole), cards(board), variant);
+
+test('evaluateHand picks the best five of seven', () => {
+  const hand = evaluate('Ah Kh', 'Qh Jh Th 2c 2d');
+  assert.equal(hand.name, 'Royal Flush');
+  assert.deepEqual(hand.cards.map(c => c.rank), ['A', 'K', 'Q', 'J', '10']);
+});
+
+test('evaluateHand ranks categories and kickers', () => {
+  const ordered = [
+    evaluate('Ah Kd', '9c 7s 4h 3d 2c'), // High card
+    evaluate('Ah Ad', '9c 7s 4h 3d 2c'), // Pair
+    evaluate('Ah Ad', '9c 9s 4h 3d 2c'), // Two pair
+    evaluate('Ah Ad', 'Ac 7s 4h 3d Kc'), // Trips
+    evaluate('Ah 5d', '9c 7s 4h 3d 2c'), // Wheel
+    evaluate('6h 5d', '9c 7s 4h 3d 2c'), // Seven-high straight
+    evaluate('Ah 8h', '9h 7s 4h 3d 2h'), // Flush
+    evaluate('Ah Ad', 'Ac 7s 7h 3d 2c'), // Full house
+    evaluate('Ah Ad', 'Ac As 4h 3d 2c'), // Quads
+  ].map(h => h.score);
+  ordered.slice(1).forEach((score, i) => assert.ok(score > ordered[i], `hand ${i + 1} should beat hand ${i}`));
+  assert.ok(evaluate('Ah Qd', '9c 7s 4h 3d 2c').score < evaluate('Ah Kd', '9c 7s 4h 3d 2c').score);
+  assert.equal(evaluate('Ah Kd', '9c 9s 4h 3d 2c').score, evaluate('As Kc', '9c 9s 4h 3d 2c').score);
+});
+
+test('short deck ranks flushes over full houses and plays A-6-7-8-9 as a straight', () => {
+  const flush = evaluate('Ah 8h', '9h 7s Th Jd 6h', 'SHORT_DECK');
+  const fullHouse = evaluate('Ah Ad', 'Ac 7s 7h Td 9c', 'SHORT_DECK');
+  assert.ok(flush.score > fullHouse.score);
+  assert.equal(evaluate('Ah 6d', '9c 7s 8h Kd Qc', 'SHORT_DECK').name, 'Straight, Nine high');
+});
+
+test('omaha uses exactly two hole cards and three from the board', () => {
+  assert.notEqual(evaluate('Ah Kc Qd Js', '2h 5h 8h Th 3c', 'OMAHA').name.split(',')[0], 'Flush');
+  assert.equal(evaluate('Ah Kh Qd Js', '2h 5h 8h Tc 3c', 'OMAHA').name.split(',')[0], 'Flush');
+});
+
+test('razz plays aces low and ignores straights and flushes', () => {
+  const wheel = evaluate('Ah 2h 3h', '4h 5h', 'RAZZ');
+  assert.equal(wheel.name, '5-4-3-2-A low');
+  assert.ok(wheel.score > evaluate('Ac 2d 3h', '4s 6c', 'RAZZ').score);
+  assert.equal(evaluate('2h 3h 4h', '5h 7h', 'RAZZ').score, evaluate('2c 3h 4d', '5s 7c', 'RAZZ').score);
+});
+
+test('razz picks the best low of seven and counts pairs against it', () => {
+  const hand = evaluate('Kc Kd 8s', '7h 6d 5c 3s 3h', 'RAZZ');
+  assert.equal(hand.name, '8-7-6-5-3 low');
+  assert.ok(hand.score > evaluate('Ac Ad 2s', '3h 4d', 'RAZZ').score);
+  assert.ok(evaluate('Ac Ad 2s', '3h 4d', 'RAZZ').score > evaluate('Ac Ad 2s', '2h 4d', 'RAZZ').score);
+});
+
+// Seeded, so a failure always points at the same deal.
+const mulberry32 = (a: number) => () => {
+  a = (a + 0x6d2b79f5) | 0;
+  let t = Math.imul(a ^ (a >>> 15), 1 | a);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+(['HOLDEM', 'SHORT_DECK', 'RAZZ'] as GameVariant[]).forEach(variant => {
+  test(`the fast evaluator agrees with evaluateHand on ${variant} deals`, () => {
+    const rng = mulberry32(20240601);
+    const deck = createDeck(variant);
+    for (let d = 0; d < 2000; d++) {
+      const size = 5 + (d % 3);
+      for (let i = 0; i < size; i++) {
+        const j = i + Math.floor(rng() * (deck.length - i));
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+      }
+      const hole = deck.slice(0, 2);
+      const board = deck.slice(2, size);
+      const expected = evaluateHand(hole, board, variant);
+      const actual = evaluateHandFast(hole, board, variant);
+      const dealt = deck.slice(0, size).map(c => c.rank + c.suit).join(' ');
+      assert.equal(actual.score, expected.score, dealt);
+      assert.equal(actual.name, expected.name, dealt);
+    }
+  });
+});
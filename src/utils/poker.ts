@@ -1,4 +1,4 @@
-import { Card, Rank, Suit } from '../types';
+import { Card, GameVariant, Rank, Suit } from '../types';
 
 const RANK_VALUES: Record<Rank, number> = {
   [Rank.TWO]: 2, [Rank.THREE]: 3, [Rank.FOUR]: 4, [Rank.FIVE]: 5,
@@ -6,9 +6,10 @@ const RANK_VALUES: Record<Rank, number> = {
   [Rank.TEN]: 10, [Rank.JACK]: 11, [Rank.QUEEN]: 12, [Rank.KING]: 13, [Rank.ACE]: 14,
 };
 
-export const createDeck = (): Card[] => {
+// Short deck plays without the deuces through fives: 36 cards.
+export const createDeck = (variant: GameVariant = 'HOLDEM'): Card[] => {
   const suits = [Suit.HEARTS, Suit.DIAMONDS, Suit.CLUBS, Suit.SPADES];
-  const ranks = Object.values(Rank);
+  const ranks = Object.values(Rank).filter(rank => variant !== 'SHORT_DECK' || RANK_VALUES[rank] >= 6);
   const deck: Card[] = [];
   suits.forEach((suit) => {
     ranks.forEach((rank) => {
@@ -18,111 +19,184 @@ export const createDeck = (): Card[] => {
   return deck;
 };
 
+export const isSameCard = (a: Card, b: Card) => a.rank === b.rank && a.suit === b.suit;
+
+// Unbiased integer in [0, range) from the platform's secure random source.
+const secureRandomInt = (range: number) => {
+  const limit = Math.floor(0x100000000 / range) * range;
+  const value = new Uint32Array(1);
+  do crypto.getRandomValues(value); while (value[0] >= limit);
+  return value[0] % range;
+};
+
 export const shuffleDeck = (deck: Card[]): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = secureRandomInt(i + 1);
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
 };
 
-// --- Simplified Hand Evaluator ---
-// Returns a numeric score. Higher is better.
-// Format: Type (1-9) * 1,000,000 + TieBreakers
-
-export const evaluateHand = (holeCards: Card[], communityCards: Card[]): { score: number; name: string } => {
-  const cards = [...holeCards, ...communityCards].sort((a, b) => b.value - a.value);
-  
-  const isFlush = (cs: Card[]) => {
-    const suits: Record<string, number> = {};
-    cs.forEach(c => suits[c.suit] = (suits[c.suit] || 0) + 1);
-    const flushSuit = Object.keys(suits).find(s => suits[s] >= 5);
-    if (!flushSuit) return null;
-    return cs.filter(c => c.suit === flushSuit).slice(0, 5);
-  };
-
-  const isStraight = (cs: Card[]) => {
-    const uniqueValues = Array.from(new Set(cs.map(c => c.value))).sort((a, b) => b - a);
-    for (let i = 0; i <= uniqueValues.length - 5; i++) {
-      if (uniqueValues[i] - uniqueValues[i + 4] === 4) {
-        return uniqueValues[i]; // High card of straight
-      }
-    }
-    // Ace low straight (5,4,3,2,A)
-    if (uniqueValues.includes(14) && uniqueValues.includes(5) && uniqueValues.includes(4) && uniqueValues.includes(3) && uniqueValues.includes(2)) {
-      return 5;
-    }
-    return null;
-  };
-
-  const countRanks = (cs: Card[]) => {
-    const counts: Record<number, number> = {};
-    cs.forEach(c => counts[c.value] = (counts[c.value] || 0) + 1);
-    return counts;
-  };
-
-  const flushCards = isFlush(cards);
-  const straightHigh = isStraight(cards);
-  const rankCounts = countRanks(cards);
-  
-  const quads = Object.keys(rankCounts).find(r => rankCounts[parseInt(r)] === 4);
-  const trips = Object.keys(rankCounts).filter(r => rankCounts[parseInt(r)] === 3).sort((a,b) => parseInt(b)-parseInt(a));
-  const pairs = Object.keys(rankCounts).filter(r => rankCounts[parseInt(r)] === 2).sort((a,b) => parseInt(b)-parseInt(a));
-
-  // 1. Straight Flush
-  if (flushCards) {
-    const sfHigh = isStraight(flushCards);
-    if (sfHigh) return { score: 9000000 + sfHigh, name: 'Straight Flush' };
+// --- Hand Evaluator ---
+// Every five-card combination is ranked exactly and the best one wins.
+// Score format: Category (1-9) * 1,000,000 + the five tie-break values read
+// as a base-15 number, so any two hands compare with a plain `>`.
+// Omaha hands are the best of every two-hole-card, three-board-card pick.
+// Razz ranks lows instead, with its own score (see below).
+
+export interface HandResult {
+  score: number;
+  name: string;
+  cards: Card[]; // The best five, strongest-first
+}
+
+export const HAND_CATEGORIES = [
+  '', 'High Card', 'One Pair', 'Two Pair', 'Three of a Kind', 'Straight',
+  'Flush', 'Full House', 'Four of a Kind', 'Straight Flush',
+];
+
+const RANK_NAMES: Record<number, [string, string]> = {
+  2: ['Two', 'Twos'], 3: ['Three', 'Threes'], 4: ['Four', 'Fours'], 5: ['Five', 'Fives'],
+  6: ['Six', 'Sixes'], 7: ['Seven', 'Sevens'], 8: ['Eight', 'Eights'], 9: ['Nine', 'Nines'],
+  10: ['Ten', 'Tens'], 11: ['Jack', 'Jacks'], 12: ['Queen', 'Queens'], 13: ['King', 'Kings'], 14: ['Ace', 'Aces'],
+};
+const one = (v: number) => RANK_NAMES[v][0];
+const many = (v: number) => RANK_NAMES[v][1];
+const kicker = (v?: number) => (v ? `, ${one(v)} kicker` : '');
+
+// Short deck has so few low cards that flushes are rarer than full houses
+// and rank above them, so the two swap places in the score.
+const rankCategory = (category: number, variant: GameVariant) =>
+  variant === 'SHORT_DECK' && (category === 6 || category === 7) ? 13 - category : category;
+
+const scoreOf = (category: number, tieBreaks: number[], variant: GameVariant = 'HOLDEM') =>
+  rankCategory(category, variant) * 1000000 + tieBreaks.reduce((acc, v) => acc * 15 + v, 0) * Math.pow(15, 5 - tieBreaks.length);
+
+const describe = (category: number, t: number[]): string => {
+  const label = HAND_CATEGORIES[category];
+  switch (category) {
+    case 9: return t[0] === 14 ? 'Royal Flush' : `${label}, ${one(t[0])} high`;
+    case 8: return `${label}, ${many(t[0])}${kicker(t[1])}`;
+    case 7: return `${label}, ${many(t[0])} full of ${many(t[1])}`;
+    case 6: return `${label}, ${one(t[0])} high`;
+    case 5: return `${label}, ${one(t[0])} high`;
+    case 4: return `${label}, ${many(t[0])}${kicker(t[1])}`;
+    case 3: return `${label}, ${many(t[0])} and ${many(t[1])}${kicker(t[2])}`;
+    case 2: return `${label}, ${many(t[0])}${kicker(t[1])}`;
+    default: return `${label}, ${one(t[0])}${kicker(t[1])}`;
   }
+};
 
-  // 2. Four of a Kind
-  if (quads) {
-    const kicker = cards.find(c => c.value !== parseInt(quads))?.value || 0;
-    return { score: 8000000 + (parseInt(quads) * 100) + kicker, name: 'Four of a Kind' };
+// Rebuilds the descriptive name from a score alone.
+export const describeScore = (score: number, variant: GameVariant = 'HOLDEM'): string => {
+  let rest = score % 1000000;
+  const category = rankCategory(Math.floor(score / 1000000), variant);
+  const tieBreaks: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    tieBreaks.unshift(rest % 15);
+    rest = Math.floor(rest / 15);
   }
+  return describe(category, tieBreaks.filter(v => v > 0));
+};
 
-  // 3. Full House
-  if (trips.length > 0 && (trips.length >= 2 || pairs.length > 0)) {
-    const t = parseInt(trips[0]);
-    const p = trips.length >= 2 ? parseInt(trips[1]) : parseInt(pairs[0]);
-    return { score: 7000000 + (t * 100) + p, name: 'Full House' };
-  }
+// Pairs, trips and quads from the ranks alone, on any number of cards.
+// Tie-breaks are the ranks grouped by size, then rank: e.g. full house ->
+// [trips, pair].
+const groupRanks = (values: number[]) => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  const groups = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+  const [first, second] = groups.map(g => g[1]);
+  const category =
+    first === 4 ? 8
+    : first === 3 ? (second === 2 ? 7 : 4)
+    : first === 2 ? (second === 2 ? 3 : 2)
+    : 1;
+  return { category, tieBreaks: groups.map(g => g[0]) };
+};
 
-  // 4. Flush
-  if (flushCards) {
-    return { score: 6000000 + flushCards[0].value, name: 'Flush' };
+// Ranks exactly five cards. The ace plays low in the lowest straight:
+// A-2-3-4-5, or A-6-7-8-9 in short deck.
+const evaluateFive = (five: Card[], variant: GameVariant): HandResult => {
+  const cards = [...five].sort((a, b) => b.value - a.value);
+  const values = cards.map(c => c.value);
+  const groups = groupRanks(values);
+
+  const isFlush = cards.every(c => c.suit === cards[0].suit);
+  const isWheel = values.join() === (variant === 'SHORT_DECK' ? '14,9,8,7,6' : '14,5,4,3,2');
+  const isStraight = groups.tieBreaks.length === 5 && (values[0] - values[4] === 4 || isWheel);
+  if (isWheel) cards.push(cards.shift()!); // Ace plays low
+
+  let category: number;
+  let tieBreaks: number[];
+  if (isStraight) {
+    category = isFlush ? 9 : 5;
+    tieBreaks = [isWheel ? values[1] : values[0]];
+  } else if (isFlush) {
+    category = 6;
+    tieBreaks = values;
+  } else {
+    ({ category, tieBreaks } = groups);
+    // Order the cards to match: made part first, then kickers
+    cards.sort((a, b) => tieBreaks.indexOf(a.value) - tieBreaks.indexOf(b.value));
   }
 
-  // 5. Straight
-  if (straightHigh) {
-    return { score: 5000000 + straightHigh, name: 'Straight' };
-  }
+  return { score: scoreOf(category, tieBreaks, variant), name: describe(category, tieBreaks), cards };
+};
 
-  // 6. Three of a Kind
-  if (trips.length > 0) {
-    const t = parseInt(trips[0]);
-    const kickers = cards.filter(c => c.value !== t).slice(0, 2);
-    const kScore = (kickers[0]?.value || 0) * 10 + (kickers[1]?.value || 0);
-    return { score: 4000000 + (t * 1000) + kScore, name: 'Three of a Kind' };
-  }
+// Fewer than five cards (preflop, or a stud player's up cards): only pairs
+// and the like count.
+const evaluatePartial = (all: Card[], variant: GameVariant): HandResult => {
+  const { category, tieBreaks } = groupRanks(all.map(c => c.value));
+  const cards = [...all].sort((a, b) => tieBreaks.indexOf(a.value) - tieBreaks.indexOf(b.value));
+  return { score: scoreOf(category, tieBreaks, variant), name: describe(category, tieBreaks), cards };
+};
 
-  // 7. Two Pair
-  if (pairs.length >= 2) {
-    const p1 = parseInt(pairs[0]);
-    const p2 = parseInt(pairs[1]);
-    const kicker = cards.find(c => c.value !== p1 && c.value !== p2)?.value || 0;
-    return { score: 3000000 + (p1 * 1000) + (p2 * 10) + kicker, name: 'Two Pair' };
-  }
+// --- Ace-to-Five Low (Razz) ---
+// Aces are low and straights and flushes don't count, so only the ranks
+// matter: no pair beats one pair beats two pair, then the highest card
+// decides. The score is turned around so a better low still compares
+// higher: the category counts as 10 - category and each tie-break rank as
+// 14 - rank (ace = 1).
+
+const lowValue = (c: Card) => (c.value === 14 ? 1 : c.value);
+
+// Ranks up to five cards.
+const evaluateLow = (five: Card[]): HandResult => {
+  const { category, tieBreaks } = groupRanks(five.map(lowValue));
+  const cards = [...five].sort((a, b) => tieBreaks.indexOf(lowValue(a)) - tieBreaks.indexOf(lowValue(b)));
+  const score = (10 - category) * 1000000
+    + tieBreaks.reduce((acc, v) => acc * 15 + 14 - v, 0) * Math.pow(15, 5 - tieBreaks.length);
+  const name = category === 1
+    ? `${cards.map(c => c.rank).join('-')} low`
+    : describe(category, tieBreaks.map(v => (v === 1 ? 14 : v)));
+  return { score, name, cards };
+};
 
-  // 8. One Pair
-  if (pairs.length > 0) {
-    const p = parseInt(pairs[0]);
-    const kickers = cards.filter(c => c.value !== p).slice(0, 3);
-    const kScore = kickers.reduce((acc, c, i) => acc + c.value * Math.pow(0.1, i), 0);
-    return { score: 2000000 + (p * 100) + kScore, name: 'One Pair' };
-  }
+const combinations = (cards: Card[], k: number): Card[][] => {
+  if (k === 0) return [[]];
+  if (cards.length < k) return [];
+  const [first, ...rest] = cards;
+  return [...combinations(rest, k - 1).map(c => [first, ...c]), ...combinations(rest, k)];
+};
 
-  // 9. High Card
-  return { score: 1000000 + cards[0].value, name: 'High Card' };
-};
\ No newline at end of file
+const bestOf = (hands: Card[][], evaluate: (five: Card[]) => HandResult) =>
+  hands
+    .map(evaluate)
+    .reduce((best, hand) => (hand.score > best.score ? hand : best));
+
+// A stud player's cards are all hole cards; the board is empty unless the
+// deck ran short on seventh street.
+export const evaluateHand = (holeCards: Card[], communityCards: Card[], variant: GameVariant = 'HOLDEM'): HandResult => {
+  const all = [...holeCards, ...communityCards];
+  if (all.length === 0) return { score: 0, name: '', cards: [] };
+  if (variant === 'RAZZ') return all.length <= 5 ? evaluateLow(all) : bestOf(combinations(all, 5), evaluateLow);
+  if (all.length < 5) return evaluatePartial(all, variant);
+  const evaluate = (five: Card[]) => evaluateFive(five, variant);
+  if (variant === 'OMAHA' && holeCards.length >= 2 && communityCards.length >= 3) {
+    const boards = combinations(communityCards, 3);
+    return bestOf(combinations(holeCards, 2).flatMap(hole => boards.map(board => [...hole, ...board])), evaluate);
+  }
+  return bestOf(combinations(all, 5), evaluate);
+};